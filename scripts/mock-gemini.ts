@@ -0,0 +1,40 @@
+// Stand-in for the Gemini API so the coach can be tried and tested without a key.
+//
+//   npm run mock-gemini
+//   GEMINI_API_KEY=mock GEMINI_BASE_URL=http://localhost:3002 npm run server
+//
+// Suggestions pick the first legal move offered in the prompt; reviews are canned.
+
+import express from 'express';
+
+const PORT = Number(process.env.MOCK_GEMINI_PORT) || 3002;
+
+const reply = (body: object) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(body) }] }, finishReason: 'STOP', index: 0 }],
+});
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.post(/\/models\/[^/]+:generateContent$/, (req, res) => {
+  const prompt: string = (req.body?.contents ?? [])
+    .flatMap((c: { parts?: { text?: string }[] }) => c.parts ?? [])
+    .map(p => p.text ?? '')
+    .join('\n');
+  const legal = prompt.match(/^Legal moves: (.*)$/m);
+  console.log(`[mock-gemini] ${legal ? 'suggestion' : 'review'} request (${prompt.length} chars)`);
+
+  if (legal) {
+    const move = legal[1].split(', ')[0];
+    res.json(reply({ move, reasoning: `Mock coach: ${move} is the first legal move listed.` }));
+  } else {
+    res.json(reply({
+      summary: 'Mock coach: a steady game with a few chances to hold your 8s longer.',
+      mistakes: ['Move 3: an 8 was played while a natural match was available.'],
+    }));
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock Gemini listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,75 @@
+// Scripted online player for trying out the game server without a second browser.
+//
+//   npm run online-bot -- --code ABCDE
+//   npm run online-bot -- --create --seats 3 --start
+//
+// Plays with the Normal strategy from whatever view the server sends it.
+
+import { parseArgs } from 'node:util';
+import WebSocket from 'ws';
+import { AiDifficulty, GameAction, PlayerView } from '../src/types';
+import { createStrategy } from '../src/ai';
+import { DEFAULT_RULES } from '../src/rules';
+import { ClientMessage, ServerMessage } from '../src/online/protocol';
+
+const { values } = parseArgs({
+  options: {
+    url: { type: 'string', default: `ws://localhost:${process.env.API_PORT || 3001}/ws` },
+    code: { type: 'string' },
+    create: { type: 'boolean', default: false },
+    seats: { type: 'string', default: '2' },
+    start: { type: 'boolean', default: false },
+    name: { type: 'string', default: 'Bot' },
+    difficulty: { type: 'string', default: 'normal' },
+    delay: { type: 'string', default: '500' },
+  },
+});
+
+if (!values.create && !values.code) {
+  console.error('Pass --code to join a table or --create to open one');
+  process.exit(1);
+}
+
+const strategy = createStrategy(values.difficulty as AiDifficulty);
+const socket = new WebSocket(values.url);
+const send = (message: ClientMessage) => socket.send(JSON.stringify(message));
+
+const chooseAction = (view: PlayerView): GameAction =>
+  view.status === 'suit_selection'
+    ? { type: 'choose_suit', seat: view.seat, suit: strategy.chooseSuit(view) }
+    : strategy.chooseAction(view);
+
+socket.on('open', () => {
+  send(values.create
+    ? { type: 'create', name: values.name, seatCount: Number(values.seats), rules: DEFAULT_RULES }
+    : { type: 'join', code: values.code!, name: values.name });
+});
+
+socket.on('message', (data) => {
+  const message: ServerMessage = JSON.parse(data.toString());
+  switch (message.type) {
+    case 'joined':
+      console.log(`Seated at ${message.code} in seat ${message.seat + 1}`);
+      if (values.start) send({ type: 'start' });
+      break;
+    case 'state': {
+      const { view } = message;
+      if (view.status === 'game_over') {
+        const winner = view.winner !== null ? message.lobby.seats[view.winner].name : 'nobody';
+        console.log(`Game over: ${winner} won (${view.endReason})`);
+        socket.close();
+        return;
+      }
+      if (view.currentSeat === view.seat && view.legalActions.length > 0) {
+        setTimeout(() => send({ type: 'action', action: chooseAction(view) }), Number(values.delay));
+      }
+      break;
+    }
+    case 'rejected':
+    case 'error':
+      console.error(message.type === 'error' ? `Error: ${message.reason}${message.detail ? ` (${message.detail})` : ''}` : `Rejected: ${message.reason}`);
+      break;
+  }
+});
+
+socket.on('close', () => process.exit(0));
@@ -0,0 +1,196 @@
+// Headless self-play: runs seeded games between AI strategies and reports how they fare.
+//
+//   npm run simulate -- --games 2000 --players normal,hard --rules drawTwo,jackSkips
+//   npm run simulate -- --players easy,normal,hard,hard --json
+//   npm run simulate -- --players normal,normal,normal,normal,normal,normal --decks 2 --rules jokers
+//
+// Seats rotate every game so no strategy keeps the first move.
+
+import { parseArgs } from 'node:util';
+import { AiDifficulty, AiStrategy, GameAction, GameState, PlayerConfig, RuleFlag, RuleSet } from '../src/types';
+import { initGame, reduce, getTopCard, MIN_SEATS, MAX_SEATS } from '../src/engine';
+import { chooseAiAction, createStrategy, AI_DIFFICULTIES } from '../src/ai';
+import { createExpertStrategy } from '../src/ai/ismcts';
+import { DEFAULT_RULES, DECK_COUNTS, RULE_OPTIONS, isDeckCount } from '../src/rules';
+import { createRng } from '../src/random';
+
+const MAX_MOVES = 5000;
+const HAND_SIZE_SAMPLE_EVERY = 10; // moves
+
+interface PlayerStats {
+  label: string;
+  wins: number;
+  eightsPlayed: number;
+  forcedEights: number; // 8s played with nothing else playable
+  handSizeSums: number[]; // Per sample point, summed over games still running
+  handSizeCounts: number[];
+}
+
+interface Summary {
+  games: number;
+  seed: string;
+  rules: RuleSet;
+  players: {
+    label: string;
+    winRate: number;
+    eightsPerGame: number;
+    forcedEightRate: number;
+    averageHandSize: number[];
+  }[];
+  averageMoves: number;
+  stalemateRate: number;
+  drawRate: number; // Stalemates with no single winner
+  abortedGames: number;
+}
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '1000' },
+    players: { type: 'string', default: 'normal,normal' },
+    rules: { type: 'string', default: '' },
+    decks: { type: 'string', default: '1' },
+    seed: { type: 'string', default: 'sim' },
+    'expert-iterations': { type: 'string', default: '300' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const difficulties = values.players.split(',').map((d) => {
+  if (!AI_DIFFICULTIES.some(option => option.key === d)) {
+    fail(`Unknown strategy "${d}". Use one of: ${AI_DIFFICULTIES.map(o => o.key).join(', ')}`);
+  }
+  return d as AiDifficulty;
+});
+if (difficulties.length < MIN_SEATS || difficulties.length > MAX_SEATS) {
+  fail(`Need ${MIN_SEATS}-${MAX_SEATS} players, got ${difficulties.length}`);
+}
+
+const rules: RuleSet = { ...DEFAULT_RULES };
+values.rules.split(',').filter(Boolean).forEach((key) => {
+  if (!RULE_OPTIONS.some(option => option.key === key)) {
+    fail(`Unknown rule "${key}". Use any of: ${RULE_OPTIONS.map(o => o.key).join(', ')}`);
+  }
+  rules[key as RuleFlag] = true;
+});
+rules.decks = Number(values.decks);
+if (!isDeckCount(rules.decks)) fail(`--decks must be one of ${DECK_COUNTS.join(', ')}`);
+
+const games = Number(values.games);
+const expertIterations = Number(values['expert-iterations']);
+
+const createSeatStrategy = (difficulty: AiDifficulty, seed: string): AiStrategy =>
+  difficulty === 'expert'
+    // An iteration budget instead of a clock keeps runs reproducible
+    ? createExpertStrategy({ iterations: expertIterations, timeMs: Infinity }, createRng(seed))
+    : createStrategy(difficulty, createRng(seed));
+
+const stats: PlayerStats[] = difficulties.map((d, i) => ({
+  label: `${i + 1}:${d}`,
+  wins: 0,
+  eightsPlayed: 0,
+  forcedEights: 0,
+  handSizeSums: [],
+  handSizeCounts: [],
+}));
+
+let totalMoves = 0;
+let stalemates = 0;
+let draws = 0;
+let aborted = 0;
+
+const recordHandSizes = (state: GameState, order: number[], sample: number) => {
+  state.seats.forEach((seat, i) => {
+    const s = stats[order[i]];
+    s.handSizeSums[sample] = (s.handSizeSums[sample] ?? 0) + seat.hand.length;
+    s.handSizeCounts[sample] = (s.handSizeCounts[sample] ?? 0) + 1;
+  });
+};
+
+for (let g = 0; g < games; g++) {
+  const seed = `${values.seed}-${g}`;
+  // order[seat] = index of the configured player sitting there this game
+  const order = difficulties.map((_, i) => (i + g) % difficulties.length);
+  const players: PlayerConfig[] = order.map(i => ({ name: stats[i].label, kind: 'ai', difficulty: difficulties[i] }));
+  const strategies = order.map(i => createSeatStrategy(difficulties[i], `${seed}:ai:${i}`));
+
+  let state = initGame(seed, rules, players);
+  let moves = 0;
+  recordHandSizes(state, order, 0);
+
+  while (state.status !== 'game_over' && moves < MAX_MOVES) {
+    const seat = state.currentSeat;
+    const action: GameAction = chooseAiAction(state, strategies[seat]);
+    const next = reduce(state, action);
+    if (next === state) fail(`Strategy ${stats[order[seat]].label} made an illegal move in game ${seed}`);
+
+    if (action.type === 'play_card' && getTopCard(next).rank === '8') {
+      const s = stats[order[seat]];
+      s.eightsPlayed++;
+      const hand = state.seats[seat].hand;
+      const others = hand.filter(c => c.rank !== '8' && reduce(state, { type: 'play_card', seat, cardId: c.id }) !== state);
+      if (others.length === 0) s.forcedEights++;
+    }
+
+    state = next;
+    moves++;
+    if (moves % HAND_SIZE_SAMPLE_EVERY === 0) recordHandSizes(state, order, moves / HAND_SIZE_SAMPLE_EVERY);
+  }
+
+  totalMoves += moves;
+  if (state.status !== 'game_over') {
+    aborted++;
+    continue;
+  }
+  if (state.endReason === 'stalemate') stalemates++;
+  if (state.winner === null) draws++;
+  else stats[order[state.winner]].wins++;
+}
+
+const round = (n: number, places: number = 3) => Math.round(n * 10 ** places) / 10 ** places;
+
+const summary: Summary = {
+  games,
+  seed: values.seed,
+  rules,
+  players: stats.map(s => ({
+    label: s.label,
+    winRate: round(s.wins / games),
+    eightsPerGame: round(s.eightsPlayed / games),
+    forcedEightRate: round(s.eightsPlayed ? s.forcedEights / s.eightsPlayed : 0),
+    averageHandSize: s.handSizeSums.map((sum, i) => round(sum / s.handSizeCounts[i], 2)),
+  })),
+  averageMoves: round(totalMoves / games, 1),
+  stalemateRate: round(stalemates / games),
+  drawRate: round(draws / games),
+  abortedGames: aborted,
+};
+
+if (values.json) {
+  console.log(JSON.stringify(summary, null, 2));
+} else {
+  const activeRules = RULE_OPTIONS.filter(o => rules[o.key]).map(o => o.key);
+  console.log(`${games} games, seed "${summary.seed}", ${rules.decks} deck${rules.decks > 1 ? 's' : ''}, rules: ${activeRules.join(', ') || 'standard'}`);
+  console.log(`Average length ${summary.averageMoves} moves, stalemates ${(summary.stalemateRate * 100).toFixed(1)}%, draws ${(summary.drawRate * 100).toFixed(1)}%${aborted ? `, ${aborted} aborted` : ''}`);
+  console.log();
+  console.log(['Player'.padEnd(12), 'Win %'.padStart(7), '8s/game'.padStart(9), 'Forced 8s'.padStart(10)].join(''));
+  summary.players.forEach((p) => {
+    console.log([
+      p.label.padEnd(12),
+      (p.winRate * 100).toFixed(1).padStart(7),
+      p.eightsPerGame.toFixed(2).padStart(9),
+      `${(p.forcedEightRate * 100).toFixed(0)}%`.padStart(10),
+    ].join(''));
+  });
+  console.log();
+  console.log(`Average hand size every ${HAND_SIZE_SAMPLE_EVERY} moves (games still running):`);
+  const samples = Math.min(12, Math.max(...summary.players.map(p => p.averageHandSize.length)));
+  console.log(['Move'.padEnd(12), ...Array.from({ length: samples }, (_, i) => String(i * HAND_SIZE_SAMPLE_EVERY).padStart(6))].join(''));
+  summary.players.forEach((p) => {
+    console.log([p.label.padEnd(12), ...p.averageHandSize.slice(0, samples).map(n => n.toFixed(1).padStart(6))].join(''));
+  });
+}
@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import { GoogleGenAI, Type } from '@google/genai';
+import { CoachAdvice, CoachSnapshot, GameRecord, GameReview, Rank, Suit } from '../src/types';
+import { RANKS, SUITS, SUIT_SYMBOLS } from '../src/constants';
+import { describeRules, isRuleSet } from '../src/rules';
+import { cardLabel, describeLogEntry } from '../src/history';
+import { describeMove, getMoveId } from '../src/coach';
+import { restoreGame, validateGameRecord } from '../src/gameRecord';
+
+// Proxy between the Coach panel and Gemini. The key stays on the server; without one
+// every route answers 503 and the panel says the coach is unavailable.
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const RULES_PRIMER = `Crazy Eights: match the top card's suit or rank; 8s are wild and name the next suit. ` +
+  `First to empty their hand wins. Cards left score against you: 8 = 50, face cards = 10, ace = 1, others face value.`;
+
+type Fields = Record<string, unknown> | null;
+
+const isCard = (value: unknown): boolean => {
+  const card = value as Fields;
+  return typeof card?.id === 'string'
+    && (card.rank === 'Joker' ? card.suit === null : RANKS.includes(card.rank as Rank) && SUITS.includes(card.suit as Suit));
+};
+
+const isAction = (value: unknown): boolean => {
+  const action = value as Fields;
+  if (!Number.isInteger(action?.seat)) return false;
+  switch (action.type) {
+    case 'play_card':
+      return typeof action.cardId === 'string'
+        && (action.extraCardIds === undefined || (Array.isArray(action.extraCardIds) && action.extraCardIds.every(id => typeof id === 'string')));
+    case 'choose_suit': return SUITS.includes(action.suit as Suit);
+    case 'draw_card': case 'pass': return true;
+    default: return false;
+  }
+};
+
+// Returns an error message, or null when `body` looks like a CoachSnapshot
+export const validateSnapshot = (body: unknown): string | null => {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object';
+  const snapshot = body as Record<string, unknown>;
+  if (!Array.isArray(snapshot.hand) || !snapshot.hand.every(isCard)) return 'hand must be a list of cards';
+  if (!isCard(snapshot.topCard)) return 'topCard must be a card';
+  if (!Array.isArray(snapshot.handCounts) || !isRuleSet(snapshot.rules)) return 'handCounts and rules are required';
+  if (!Array.isArray(snapshot.legalActions) || snapshot.legalActions.length === 0) return 'There is no move to advise on';
+  if (!snapshot.legalActions.every(isAction)) return 'legalActions must be a list of moves';
+  return null;
+};
+
+export const buildSuggestionPrompt = (snapshot: CoachSnapshot): string => {
+  const opponents = snapshot.handCounts
+    .map((count, seat) => (seat === snapshot.seat ? null : `seat ${seat + 1}: ${count} cards`))
+    .filter(Boolean)
+    .join(', ');
+  return [
+    RULES_PRIMER,
+    `House rules: ${describeRules(snapshot.rules)}.`,
+    `My hand: ${snapshot.hand.map(cardLabel).join(' ')}`,
+    `Top card: ${cardLabel(snapshot.topCard)}${snapshot.currentSuit ? `, suit called: ${SUIT_SYMBOLS[snapshot.currentSuit]} ${snapshot.currentSuit}` : ''}`,
+    `Opponents (in seat order, play goes ${snapshot.direction === 1 ? 'up' : 'down'}): ${opponents}`,
+    snapshot.pendingDraw > 0 ? `I must draw ${snapshot.pendingDraw} unless I can stack a penalty card.` : '',
+    snapshot.status === 'suit_selection' ? 'I just played an 8 and must name a suit.' : '',
+    snapshot.rules.multiCardPlay ? 'A move like play:a+b lays down a then b, leaving b on top.' : '',
+    `Legal moves: ${snapshot.legalActions.map(getMoveId).join(', ')}`,
+    'Pick the best legal move for me. Answer with its id exactly as listed and one or two sentences of reasoning.',
+  ].filter(Boolean).join('\n');
+};
+
+export const buildReviewPrompt = (record: GameRecord, seat: number): string => {
+  const state = restoreGame(record);
+  const moves = state.log.map((entry, i) => `${i}. ${describeLogEntry(entry, state.seats, null)}`);
+  const winner = state.winner !== null ? state.seats[state.winner].name : 'nobody';
+  return [
+    RULES_PRIMER,
+    `House rules: ${describeRules(state.rules)}.`,
+    `I played as ${state.seats[seat].name}. ${winner} won (${state.endReason === 'stalemate' ? 'stalemate' : 'went out'}).`,
+    `Hands at the end: ${state.seats.map(s => `${s.name}: ${s.hand.map(cardLabel).join(' ') || 'empty'}`).join('; ')}`,
+    'Moves:',
+    ...moves,
+    `Summarise how the game went for ${state.seats[seat].name} and list up to three key mistakes, citing move numbers. ` +
+      'If there were no real mistakes, say so and leave the list empty.',
+  ].join('\n');
+};
+
+// The panel asks for answers in the player's language
+const LANGUAGE_NAMES: Record<string, string> = { 'zh-CN': 'Simplified Chinese' };
+
+const answerIn = (locale: unknown): string =>
+  typeof locale === 'string' && LANGUAGE_NAMES[locale] ? `\nWrite all explanations in ${LANGUAGE_NAMES[locale]}.` : '';
+
+const parseJson = (text: string | undefined): Fields => {
+  try {
+    const value: unknown = JSON.parse(text ?? '');
+    return value && typeof value === 'object' ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+};
+
+export const createCoachRouter = (gemini: GoogleGenAI | null, model: string = DEFAULT_MODEL): Router => {
+  const router = Router();
+
+  router.get('/coach/status', (_req, res) => {
+    res.json({ available: gemini !== null });
+  });
+
+  router.use('/coach', (_req, res, next) => {
+    if (gemini) next();
+    else res.status(503).json({ error: 'The coach needs GEMINI_API_KEY set on the server' });
+  });
+
+  router.post('/coach/suggest', async (req, res) => {
+    const error = validateSnapshot(req.body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const snapshot = req.body as CoachSnapshot;
+    try {
+      const response = await gemini!.models.generateContent({
+        model,
+        contents: buildSuggestionPrompt(snapshot) + answerIn(req.body.locale),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { move: { type: Type.STRING }, reasoning: { type: Type.STRING } },
+            required: ['move', 'reasoning'],
+          },
+        },
+      });
+      const answer = parseJson(response.text);
+      const action = snapshot.legalActions.find(a => getMoveId(a) === answer?.move) ?? null;
+      const advice: CoachAdvice = {
+        action,
+        move: action ? describeMove(action, snapshot) : 'No clear pick',
+        reasoning: typeof answer?.reasoning === 'string' ? answer.reasoning : 'The coach gave an answer that could not be read.',
+      };
+      res.json(advice);
+    } catch (err) {
+      res.status(502).json({ error: `The coach is unavailable: ${(err as Error).message}` });
+    }
+  });
+
+  router.post('/coach/review', async (req, res) => {
+    const record = req.body?.record;
+    const seat = req.body?.seat;
+    const error = validateGameRecord(record);
+    if (error || !Number.isInteger(seat) || seat < 0 || seat >= record.players.length) {
+      res.status(400).json({ error: error ?? 'seat must be a seat index' });
+      return;
+    }
+    let prompt: string;
+    try {
+      prompt = buildReviewPrompt(record, seat);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+    try {
+      const response = await gemini!.models.generateContent({
+        model,
+        contents: prompt + answerIn(req.body.locale),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              summary: { type: Type.STRING },
+              mistakes: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ['summary', 'mistakes'],
+          },
+        },
+      });
+      const answer = parseJson(response.text);
+      const review: GameReview = {
+        summary: typeof answer?.summary === 'string' ? answer.summary : 'The coach gave an answer that could not be read.',
+        mistakes: Array.isArray(answer?.mistakes) ? answer.mistakes.filter((m): m is string => typeof m === 'string') : [],
+      };
+      res.json(review);
+    } catch (err) {
+      res.status(502).json({ error: `The coach is unavailable: ${(err as Error).message}` });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import type Database from 'better-sqlite3';
+import { GameState } from '../src/types';
+import { restoreGame, validateGameRecord } from '../src/gameRecord';
+import { DAILY_DIFFICULTY, MAX_NAME_LENGTH, createDailyResult, findForeignAiMove, getDailyDate, isDailyDate } from '../src/daily';
+import { getDailyEntry, getDailyLeaderboard, insertDailyResult, listDailies, parseLimit } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Today's challenge, plus yesterday's so a game started just before midnight UTC still counts
+const isOpen = (date: string): boolean => {
+  const now = Date.now();
+  return date === getDailyDate(new Date(now)) || date === getDailyDate(new Date(now - DAY_MS));
+};
+
+export const createDailyRouter = (db: Database.Database): Router => {
+  const router = Router();
+
+  // The client sends its whole game; the result is worked out here from the replay
+  router.post('/daily', (req, res) => {
+    const record = req.body?.record;
+    const durationMs = req.body?.durationMs;
+    const error = validateGameRecord(record);
+    if (error || !Number.isInteger(durationMs) || durationMs < 0) {
+      res.status(400).json({ error: error ?? 'durationMs must be a non-negative integer' });
+      return;
+    }
+    let state: GameState;
+    try {
+      state = restoreGame(record);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+    const result = createDailyResult(state, durationMs);
+    if (!result) {
+      res.status(400).json({ error: 'Not a finished Daily Challenge' });
+      return;
+    }
+    const foreignMove = findForeignAiMove(state);
+    if (foreignMove !== null) {
+      res.status(400).json({ error: `Move ${foreignMove} is not the one the ${DAILY_DIFFICULTY} AI makes` });
+      return;
+    }
+    if (result.name.trim() !== result.name || result.name.length > MAX_NAME_LENGTH) {
+      res.status(400).json({ error: `Names must be 1-${MAX_NAME_LENGTH} characters without surrounding spaces` });
+      return;
+    }
+    if (!isOpen(result.date)) {
+      res.status(400).json({ error: `The ${result.date} challenge is closed` });
+      return;
+    }
+    if (!insertDailyResult(db, result)) {
+      res.status(409).json({ error: `${result.name} has already played the ${result.date} challenge` });
+      return;
+    }
+    res.status(201).json(getDailyEntry(db, result.date, result.name));
+  });
+
+  // `?name=` adds that player's entry to each day
+  router.get('/daily', (req, res) => {
+    const limit = parseLimit(req.query.limit, 30, 365);
+    if (limit === null) {
+      res.status(400).json({ error: 'limit must be a whole number' });
+      return;
+    }
+    const name = typeof req.query.name === 'string' && req.query.name ? req.query.name : undefined;
+    res.json(listDailies(db, limit, name));
+  });
+
+  router.get('/daily/:date', (req, res) => {
+    if (!isDailyDate(req.params.date)) {
+      res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      return;
+    }
+    res.json(getDailyLeaderboard(db, req.params.date));
+  });
+
+  return router;
+};
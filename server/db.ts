@@ -0,0 +1,189 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DailyEntry, DailyResult, DailySummary, FinishedGame, PlayerStats, SeatKind, Suit } from '../src/types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS games (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    seed TEXT NOT NULL,
+    rules TEXT NOT NULL,
+    end_reason TEXT NOT NULL,
+    winner_seat INTEGER,
+    move_count INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    finished_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+
+  CREATE TABLE IF NOT EXISTS game_players (
+    game_id INTEGER NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    seat INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    difficulty TEXT,
+    won INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    cards_left INTEGER NOT NULL,
+    points_left INTEGER NOT NULL,
+    PRIMARY KEY (game_id, seat)
+  );
+
+  CREATE TABLE IF NOT EXISTS suit_choices (
+    game_id INTEGER NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    seat INTEGER NOT NULL,
+    suit TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS game_players_name ON game_players (name, kind);
+
+  CREATE TABLE IF NOT EXISTS daily_results (
+    date TEXT NOT NULL,
+    name TEXT NOT NULL,
+    won INTEGER NOT NULL,
+    moves INTEGER NOT NULL,
+    opponent_cards_left INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    finished_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (date, name)
+  );
+`;
+
+export const openDatabase = (file: string): Database.Database => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  return db;
+};
+
+export const insertGame = (db: Database.Database, game: FinishedGame): number => {
+  const insertGameRow = db.prepare(`
+    INSERT INTO games (seed, rules, end_reason, winner_seat, move_count, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertPlayer = db.prepare(`
+    INSERT INTO game_players (game_id, seat, name, kind, difficulty, won, score, cards_left, points_left)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertSuitChoice = db.prepare('INSERT INTO suit_choices (game_id, seat, suit) VALUES (?, ?, ?)');
+
+  return db.transaction(() => {
+    const { lastInsertRowid } = insertGameRow.run(
+      game.seed,
+      JSON.stringify(game.rules),
+      game.endReason,
+      game.winner,
+      game.moveCount,
+      game.durationMs,
+    );
+    const gameId = Number(lastInsertRowid);
+    game.players.forEach((p, seat) => {
+      insertPlayer.run(gameId, seat, p.name, p.kind, p.difficulty ?? null, seat === game.winner ? 1 : 0, p.score, p.cardsLeft, p.pointsLeft);
+    });
+    game.suitChoices.forEach(c => insertSuitChoice.run(gameId, c.seat, c.suit));
+    return gameId;
+  })();
+};
+
+// Reads a `?limit=` for the list queries: `fallback` when it's missing, held to 1..`max`
+// otherwise, since SQLite takes a negative LIMIT as no limit at all. Null when it isn't
+// a whole number.
+export const parseLimit = (value: unknown, fallback: number, max: number): number | null => {
+  if (value === undefined) return fallback;
+  const limit = Number(value);
+  return Number.isInteger(limit) ? Math.max(1, Math.min(limit, max)) : null;
+};
+
+export const listGames = (db: Database.Database, limit: number) =>
+  db.prepare(`
+    SELECT id, seed, end_reason AS endReason, winner_seat AS winner, move_count AS moveCount,
+           duration_ms AS durationMs, finished_at AS finishedAt
+    FROM games ORDER BY id DESC LIMIT ?
+  `).all(limit);
+
+const getStreaks = (results: number[]): { current: number; longest: number } => {
+  let run = 0;
+  let longest = 0;
+  results.forEach((won) => {
+    run = won ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+  return { current: run, longest };
+};
+
+export const getPlayerStats = (db: Database.Database, name?: string): PlayerStats[] => {
+  const players = db.prepare(`
+    SELECT name, kind, COUNT(*) AS games, SUM(won) AS wins, AVG(score) AS averageScore
+    FROM game_players
+    ${name ? 'WHERE name = ?' : ''}
+    GROUP BY name, kind
+    ORDER BY wins DESC, games DESC
+  `).all(...(name ? [name] : [])) as { name: string; kind: SeatKind; games: number; wins: number; averageScore: number }[];
+
+  const results = db.prepare(`
+    SELECT won FROM game_players WHERE name = ? AND kind = ? ORDER BY game_id
+  `);
+  const favoriteSuit = db.prepare(`
+    SELECT sc.suit, COUNT(*) AS times
+    FROM suit_choices sc
+    JOIN game_players gp ON gp.game_id = sc.game_id AND gp.seat = sc.seat
+    WHERE gp.name = ? AND gp.kind = ?
+    GROUP BY sc.suit ORDER BY times DESC LIMIT 1
+  `);
+
+  return players.map((p) => {
+    const history = (results.all(p.name, p.kind) as { won: number }[]).map(r => r.won);
+    const streaks = getStreaks(history);
+    const favorite = favoriteSuit.get(p.name, p.kind) as { suit: Suit } | undefined;
+    return {
+      name: p.name,
+      kind: p.kind,
+      games: p.games,
+      wins: p.wins,
+      winRate: p.games ? p.wins / p.games : 0,
+      currentStreak: streaks.current,
+      longestStreak: streaks.longest,
+      averageScore: Math.round(p.averageScore * 10) / 10,
+      favoriteSuit: favorite?.suit ?? null,
+    };
+  });
+};
+
+// --- Daily Challenge ---
+
+// Wins first, then the fewest moves, then the most cards left stranded in the AI's hand
+const DAILY_RANKED = `
+  SELECT date, name, won, moves, opponent_cards_left AS opponentCardsLeft, duration_ms AS durationMs,
+         finished_at AS finishedAt,
+         RANK() OVER (PARTITION BY date ORDER BY won DESC, moves ASC, opponent_cards_left DESC, duration_ms ASC) AS rank
+  FROM daily_results
+`;
+
+type DailyRow = Omit<DailyEntry, 'won'> & { won: number };
+
+const toDailyEntry = (row: DailyRow): DailyEntry => ({ ...row, won: row.won === 1 });
+
+// False when this player already has a result for the day; the first attempt stands
+export const insertDailyResult = (db: Database.Database, result: DailyResult): boolean =>
+  db.prepare(`
+    INSERT OR IGNORE INTO daily_results (date, name, won, moves, opponent_cards_left, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(result.date, result.name, result.won ? 1 : 0, result.moves, result.opponentCardsLeft, result.durationMs).changes === 1;
+
+export const getDailyLeaderboard = (db: Database.Database, date: string): DailyEntry[] =>
+  (db.prepare(`SELECT * FROM (${DAILY_RANKED}) WHERE date = ? ORDER BY rank, finishedAt`).all(date) as DailyRow[]).map(toDailyEntry);
+
+export const getDailyEntry = (db: Database.Database, date: string, name: string): DailyEntry | null => {
+  const row = db.prepare(`SELECT * FROM (${DAILY_RANKED}) WHERE date = ? AND name = ?`).get(date, name) as DailyRow | undefined;
+  return row ? toDailyEntry(row) : null;
+};
+
+// Most recent first
+export const listDailies = (db: Database.Database, limit: number, name?: string): DailySummary[] => {
+  const days = db.prepare(`
+    SELECT date, COUNT(*) AS players, SUM(won) AS winners
+    FROM daily_results GROUP BY date ORDER BY date DESC LIMIT ?
+  `).all(limit) as { date: string; players: number; winners: number }[];
+  return days.map(day => ({ ...day, entry: name ? getDailyEntry(db, day.date, name) : null }));
+};
@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import http from 'http';
+import express from 'express';
+import { GoogleGenAI } from '@google/genai';
+import { openDatabase, insertGame } from './db';
+import { createStatsRouter } from './stats';
+import { createDailyRouter } from './daily';
+import { createLobbyManager } from './lobbies';
+import { attachRealtime } from './realtime';
+import { createFinishedGame } from '../src/api';
+import { createCoachRouter } from './coach';
+
+// .env.local holds secrets such as GEMINI_API_KEY, as in the Vite setup
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+// Local API and online game server. In development Vite proxies /api and /ws here (see vite.config.ts).
+
+const PORT = Number(process.env.API_PORT) || 3001;
+const DATABASE_PATH = process.env.DATABASE_PATH || 'data/crazy-eights.db';
+
+// GEMINI_BASE_URL points the coach at a stand-in such as `npm run mock-gemini`
+const gemini = process.env.GEMINI_API_KEY
+  ? new GoogleGenAI({
+    apiKey: process.env.GEMINI_API_KEY,
+    ...(process.env.GEMINI_BASE_URL ? { httpOptions: { baseUrl: process.env.GEMINI_BASE_URL } } : {}),
+  })
+  : null;
+
+const db = openDatabase(DATABASE_PATH);
+const app = express();
+
+app.use(express.json({ limit: '1mb' }));
+app.use('/api', createStatsRouter(db));
+app.use('/api', createDailyRouter(db));
+app.use('/api', createCoachRouter(gemini, process.env.GEMINI_MODEL || undefined));
+
+// Online games are recorded by the server itself, which saw every move
+const lobbies = createLobbyManager({
+  onGameOver: (lobby) => insertGame(db, createFinishedGame(lobby.state!, Date.now() - lobby.startedAt)),
+});
+
+const server = http.createServer(app);
+attachRealtime(server, lobbies);
+
+server.listen(PORT, () => {
+  console.log(`Crazy Eights API listening on http://localhost:${PORT} (database: ${DATABASE_PATH})`);
+  if (!gemini) console.log('Coach disabled: set GEMINI_API_KEY to enable it');
+});
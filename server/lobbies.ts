@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import type { WebSocket } from 'ws';
+import { GameAction, GameState, PlayerConfig, RejectionReason, RuleSet, SeatKind } from '../src/types';
+import { initGame, getRejection, reduce, MIN_SEATS, MAX_SEATS } from '../src/engine';
+import { chooseAiAction, createStrategy } from '../src/ai';
+import { createPlayerView } from '../src/view';
+import { LobbyError, LobbyInfo, ServerMessage } from '../src/online/protocol';
+
+// Server-authoritative tables. Each lobby owns its GameState; humans act through their
+// sockets, AI fills empty seats, and a human who drops is covered by AI until they resume.
+
+// Thrown for a request the lobby refuses; the socket handler sends `reason` to the client
+export const refusal = (reason: LobbyError) => Object.assign(new Error(reason), { reason });
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const AI_DELAY_MS = 800;
+export const DISCONNECT_GRACE_MS = 20_000;
+const IDLE_LOBBY_MS = 10 * 60_000;
+
+export interface LobbySeat {
+  name: string | null;
+  kind: SeatKind;
+  token: string | null;
+  socket: WebSocket | null;
+  disconnectedAt: number | null;
+}
+
+export interface Lobby {
+  code: string;
+  host: number;
+  rules: RuleSet;
+  seats: LobbySeat[];
+  state: GameState | null;
+  startedAt: number;
+  lastActiveAt: number;
+  aiTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface LobbyOptions {
+  onGameOver?: (lobby: Lobby) => void;
+}
+
+export const createLobbyManager = ({ onGameOver }: LobbyOptions = {}) => {
+  const lobbies = new Map<string, Lobby>();
+
+  const createCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from(crypto.randomBytes(5), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    } while (lobbies.has(code));
+    return code;
+  };
+
+  const toInfo = (lobby: Lobby): LobbyInfo => ({
+    code: lobby.code,
+    host: lobby.host,
+    rules: lobby.rules,
+    seats: lobby.seats.map(s => ({ name: s.name, kind: s.kind, connected: s.kind === 'ai' || s.socket !== null })),
+    started: lobby.state !== null,
+  });
+
+  const send = (socket: WebSocket | null, message: ServerMessage) => {
+    if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Everyone gets the lobby, and once dealt, their own redacted view of the table
+  const broadcast = (lobby: Lobby, lastAction: GameAction | null = null) => {
+    const info = toInfo(lobby);
+    const revealedHands = lobby.state?.status === 'game_over' ? lobby.state.seats.map(s => s.hand) : null;
+    lobby.seats.forEach((seat, i) => {
+      if (lobby.state) {
+        send(seat.socket, { type: 'state', lobby: info, view: createPlayerView(lobby.state, i), lastAction, revealedHands });
+      } else {
+        send(seat.socket, { type: 'lobby', lobby: info });
+      }
+    });
+  };
+
+  const isAiControlled = (seat: LobbySeat): boolean =>
+    seat.kind === 'ai' || (seat.disconnectedAt !== null && Date.now() - seat.disconnectedAt >= DISCONNECT_GRACE_MS);
+
+  const apply = (lobby: Lobby, action: GameAction): RejectionReason | null => {
+    const reason = getRejection(lobby.state!, action);
+    if (reason) return reason;
+    lobby.state = reduce(lobby.state!, action);
+    lobby.lastActiveAt = Date.now();
+    broadcast(lobby, action);
+    if (lobby.state.status === 'game_over') onGameOver?.(lobby);
+    scheduleAi(lobby);
+    return null;
+  };
+
+  const scheduleAi = (lobby: Lobby) => {
+    if (lobby.aiTimer) clearTimeout(lobby.aiTimer);
+    lobby.aiTimer = null;
+    const state = lobby.state;
+    if (!state || state.status === 'game_over') return;
+
+    const seat = lobby.seats[state.currentSeat];
+    if (isAiControlled(seat)) {
+      lobby.aiTimer = setTimeout(() => {
+        apply(lobby, chooseAiAction(lobby.state!, createStrategy(lobby.state!.seats[lobby.state!.currentSeat].difficulty)));
+      }, AI_DELAY_MS);
+    } else if (seat.disconnectedAt !== null) {
+      // Check back once the grace period runs out
+      lobby.aiTimer = setTimeout(() => scheduleAi(lobby), DISCONNECT_GRACE_MS - (Date.now() - seat.disconnectedAt) + 10);
+    }
+  };
+
+  const create = (socket: WebSocket, name: string, seatCount: number, rules: RuleSet) => {
+    if (seatCount < MIN_SEATS || seatCount > MAX_SEATS) throw refusal('bad_seat_count');
+    const token = crypto.randomUUID();
+    const lobby: Lobby = {
+      code: createCode(),
+      host: 0,
+      rules,
+      seats: Array.from({ length: seatCount }, (_, i) => ({
+        name: i === 0 ? name : null,
+        kind: 'human' as const,
+        token: i === 0 ? token : null,
+        socket: i === 0 ? socket : null,
+        disconnectedAt: null,
+      })),
+      state: null,
+      startedAt: 0,
+      lastActiveAt: Date.now(),
+      aiTimer: null,
+    };
+    lobbies.set(lobby.code, lobby);
+    send(socket, { type: 'joined', code: lobby.code, seat: 0, token });
+    broadcast(lobby);
+    return { lobby, seat: 0 };
+  };
+
+  const join = (socket: WebSocket, code: string, name: string) => {
+    const lobby = lobbies.get(code.toUpperCase());
+    if (!lobby) throw refusal('no_table');
+    if (lobby.state) throw refusal('already_started');
+    const seat = lobby.seats.findIndex(s => s.name === null);
+    if (seat === -1) throw refusal('table_full');
+    const token = crypto.randomUUID();
+    lobby.seats[seat] = { name, kind: 'human', token, socket, disconnectedAt: null };
+    lobby.lastActiveAt = Date.now();
+    send(socket, { type: 'joined', code: lobby.code, seat, token });
+    broadcast(lobby);
+    return { lobby, seat };
+  };
+
+  const resume = (socket: WebSocket, code: string, token: string) => {
+    const lobby = lobbies.get(code.toUpperCase());
+    const seat = lobby ? lobby.seats.findIndex(s => s.token === token) : -1;
+    if (!lobby || seat === -1) throw refusal('seat_gone');
+    lobby.seats[seat] = { ...lobby.seats[seat], socket, disconnectedAt: null };
+    send(socket, { type: 'joined', code: lobby.code, seat, token });
+    broadcast(lobby);
+    scheduleAi(lobby);
+    return { lobby, seat };
+  };
+
+  // Deals a new game; open seats are backfilled with AI. Also used for rematches.
+  const start = (lobby: Lobby, seat: number) => {
+    if (seat !== lobby.host) throw refusal('not_host');
+    if (lobby.state && lobby.state.status !== 'game_over') throw refusal('game_running');
+    let aiCount = 0;
+    lobby.seats = lobby.seats.map(s => (s.name === null ? { ...s, name: `AI ${++aiCount}`, kind: 'ai' } : s));
+    const players: PlayerConfig[] = lobby.seats.map(s => ({ name: s.name!, kind: s.kind, ...(s.kind === 'ai' ? { difficulty: 'normal' } : {}) }));
+    lobby.state = initGame(undefined, lobby.rules, players, lobby.state ? (lobby.state.dealer + 1) % players.length : undefined);
+    lobby.startedAt = Date.now();
+    lobby.lastActiveAt = Date.now();
+    broadcast(lobby);
+    scheduleAi(lobby);
+  };
+
+  const act = (lobby: Lobby, seat: number, action: GameAction) => {
+    if (!lobby.state) throw refusal('not_started');
+    // Clients can only ever act for their own seat
+    return apply(lobby, { ...action, seat });
+  };
+
+  // Only the socket holding the seat can drop it; one replaced by a resume closes quietly
+  const disconnect = (lobby: Lobby, seat: number, socket: WebSocket) => {
+    const entry = lobby.seats[seat];
+    if (!entry || entry.socket !== socket) return;
+    lobby.seats[seat] = { ...entry, socket: null, disconnectedAt: Date.now() };
+    broadcast(lobby);
+    scheduleAi(lobby);
+  };
+
+  // Leaving before the deal frees the seat; leaving mid-game hands it to the AI for good
+  const leave = (lobby: Lobby, seat: number) => {
+    const entry = lobby.seats[seat];
+    lobby.seats[seat] = lobby.state
+      ? { ...entry, kind: 'ai', token: null, socket: null, disconnectedAt: null }
+      : { name: null, kind: 'human', token: null, socket: null, disconnectedAt: null };
+    if (lobby.state) {
+      lobby.state = { ...lobby.state, seats: lobby.state.seats.map((s, i) => (i === seat ? { ...s, kind: 'ai', difficulty: 'normal' } : s)) };
+    }
+    if (seat === lobby.host) {
+      const next = lobby.seats.findIndex(s => s.socket !== null);
+      if (next !== -1) lobby.host = next;
+    }
+    broadcast(lobby);
+    scheduleAi(lobby);
+  };
+
+  const sweep = () => {
+    const now = Date.now();
+    lobbies.forEach((lobby, code) => {
+      const empty = lobby.seats.every(s => s.socket === null);
+      if (empty && now - lobby.lastActiveAt > IDLE_LOBBY_MS) {
+        if (lobby.aiTimer) clearTimeout(lobby.aiTimer);
+        lobbies.delete(code);
+      }
+    });
+  };
+
+  return { create, join, resume, start, act, disconnect, leave, sweep, send };
+};
+
+export type LobbyManager = ReturnType<typeof createLobbyManager>;
@@ -0,0 +1,123 @@
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { ClientMessage, LobbyError } from '../src/online/protocol';
+import { Suit } from '../src/types';
+import { SUITS } from '../src/constants';
+import { isRuleSet } from '../src/rules';
+import { LobbyManager, Lobby, refusal } from './lobbies';
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Returns an error message, or null when `action` is shaped like a GameAction. The seat is
+// ignored: the server fills in the sender's own.
+const validateAction = (action: unknown): string | null => {
+  if (!action || typeof action !== 'object') return 'action must be an object';
+  const fields = action as Record<string, unknown>;
+  switch (fields.type) {
+    case 'play_card':
+      if (!isString(fields.cardId)) return 'cardId must be a string';
+      if (fields.extraCardIds !== undefined && !(Array.isArray(fields.extraCardIds) && fields.extraCardIds.every(isString))) {
+        return 'extraCardIds must be a list of strings';
+      }
+      return null;
+    case 'choose_suit':
+      return SUITS.includes(fields.suit as Suit) ? null : `suit must be one of ${SUITS.join(', ')}`;
+    case 'draw_card': case 'pass':
+      return null;
+    default:
+      return 'Unknown action type';
+  }
+};
+
+// Returns an error message, or null when `message` is a well-formed ClientMessage
+const validateClientMessage = (message: unknown): string | null => {
+  if (!message || typeof message !== 'object') return 'Messages must be JSON objects';
+  const fields = message as Record<string, unknown>;
+  switch (fields.type) {
+    case 'create':
+      if (!isString(fields.name)) return 'name must be a string';
+      if (!Number.isInteger(fields.seatCount)) return 'seatCount must be an integer';
+      return isRuleSet(fields.rules) ? null : 'rules must be a complete RuleSet';
+    case 'join':
+      return isString(fields.code) && isString(fields.name) ? null : 'code and name must be strings';
+    case 'resume':
+      return isString(fields.code) && isString(fields.token) ? null : 'code and token must be strings';
+    case 'action':
+      return validateAction(fields.action);
+    case 'start': case 'leave':
+      return null;
+    default:
+      return 'Unknown message type';
+  }
+};
+
+export const attachRealtime = (server: Server, lobbies: LobbyManager) => {
+  const wss = new WebSocketServer({ server, path: '/ws' });
+  setInterval(lobbies.sweep, SWEEP_INTERVAL_MS).unref();
+
+  wss.on('connection', (socket: WebSocket) => {
+    // Which seat this socket holds, once it has created, joined or resumed one
+    let membership: { lobby: Lobby; seat: number } | null = null;
+
+    socket.on('message', (data) => {
+      let body: unknown;
+      try {
+        body = JSON.parse(data.toString());
+      } catch {
+        lobbies.send(socket, { type: 'error', reason: 'bad_message', detail: 'Messages must be JSON' });
+        return;
+      }
+      const error = validateClientMessage(body);
+      if (error) {
+        lobbies.send(socket, { type: 'error', reason: 'bad_message', detail: error });
+        return;
+      }
+      const message = body as ClientMessage;
+
+      try {
+        // One seat per socket: a second would overwrite `membership`, and closing the
+        // socket would then never hand the first seat to the AI
+        if (membership && (message.type === 'create' || message.type === 'join' || message.type === 'resume')) {
+          throw refusal('already_seated');
+        }
+        switch (message.type) {
+          case 'create':
+            membership = lobbies.create(socket, message.name.trim() || 'Player', message.seatCount, message.rules);
+            break;
+          case 'join':
+            membership = lobbies.join(socket, message.code, message.name.trim() || 'Player');
+            break;
+          case 'resume':
+            membership = lobbies.resume(socket, message.code, message.token);
+            break;
+          case 'start':
+            if (!membership) throw refusal('not_seated');
+            lobbies.start(membership.lobby, membership.seat);
+            break;
+          case 'action': {
+            if (!membership) throw refusal('not_seated');
+            const reason = lobbies.act(membership.lobby, membership.seat, message.action);
+            if (reason) lobbies.send(socket, { type: 'rejected', reason });
+            break;
+          }
+          case 'leave':
+            if (membership) lobbies.leave(membership.lobby, membership.seat);
+            membership = null;
+            break;
+        }
+      } catch (error) {
+        const reason: LobbyError | undefined = (error as { reason?: LobbyError }).reason;
+        if (!reason) console.error('Realtime message failed:', error);
+        lobbies.send(socket, { type: 'error', reason: reason ?? 'server_error' });
+      }
+    });
+
+    socket.on('close', () => {
+      if (membership) lobbies.disconnect(membership.lobby, membership.seat, socket);
+    });
+  });
+
+  return wss;
+};
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import type Database from 'better-sqlite3';
+import { FinishedGame, Suit } from '../src/types';
+import { SUITS } from '../src/constants';
+import { isRuleSet } from '../src/rules';
+import { AI_DIFFICULTIES } from '../src/ai';
+import { MIN_SEATS, MAX_SEATS } from '../src/engine';
+import { insertGame, listGames, parseLimit, getPlayerStats } from './db';
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Returns an error message, or null when `body` is a well-formed FinishedGame
+export const validateFinishedGame = (body: unknown): string | null => {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object';
+  const game = body as Record<string, unknown>;
+  if (typeof game.seed !== 'string' || !game.seed) return 'seed must be a non-empty string';
+  if (!isRuleSet(game.rules)) return 'rules must be a complete RuleSet';
+  if (game.endReason !== 'went_out' && game.endReason !== 'stalemate') return 'endReason must be went_out or stalemate';
+  const players = game.players;
+  if (!Array.isArray(players) || players.length < MIN_SEATS || players.length > MAX_SEATS) {
+    return `players must list ${MIN_SEATS}-${MAX_SEATS} seats`;
+  }
+  for (const p of players as (Record<string, unknown> | null)[]) {
+    if (typeof p?.name !== 'string' || !p.name) return 'Every player needs a name';
+    if (p.kind !== 'human' && p.kind !== 'ai') return 'Player kind must be human or ai';
+    if (p.difficulty !== undefined && !AI_DIFFICULTIES.some(d => d.key === p.difficulty)) return `Unknown difficulty ${p.difficulty}`;
+    if (!isCount(p.cardsLeft) || !isCount(p.pointsLeft) || !isCount(p.score)) return 'Player counts must be non-negative integers';
+  }
+  const isSeat = (seat: unknown) => isCount(seat) && seat < players.length;
+  if (game.winner !== null && !isSeat(game.winner)) return 'winner must be a seat index or null';
+  const suitChoices = game.suitChoices;
+  if (!Array.isArray(suitChoices) || (suitChoices as (Record<string, unknown> | null)[]).some(c => !isSeat(c?.seat) || !SUITS.includes(c.suit as Suit))) {
+    return 'suitChoices must be a list of { seat, suit }';
+  }
+  if (!isCount(game.moveCount) || !isCount(game.durationMs)) return 'moveCount and durationMs must be non-negative integers';
+  return null;
+};
+
+export const createStatsRouter = (db: Database.Database): Router => {
+  const router = Router();
+
+  router.post('/games', (req, res) => {
+    const error = validateFinishedGame(req.body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const id = insertGame(db, req.body as FinishedGame);
+    res.status(201).json({ id });
+  });
+
+  router.get('/games', (req, res) => {
+    const limit = parseLimit(req.query.limit, 20, 200);
+    if (limit === null) {
+      res.status(400).json({ error: 'limit must be a whole number' });
+      return;
+    }
+    res.json(listGames(db, limit));
+  });
+
+  router.get('/stats', (_req, res) => {
+    res.json(getPlayerStats(db));
+  });
+
+  router.get('/stats/:name', (req, res) => {
+    const stats = getPlayerStats(db, req.params.name);
+    if (stats.length === 0) {
+      res.status(404).json({ error: `No games recorded for ${req.params.name}` });
+      return;
+    }
+    res.json(stats);
+  });
+
+  return router;
+};
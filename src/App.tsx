@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { motion, AnimatePresence, useReducedMotion } from 'motion/react';
 import { 
   Trophy, 
   RotateCcw, 
@@ -11,17 +11,74 @@ import {
   Diamond,
   Club,
   Spade,
-  AlertCircle
+  Hash,
+  RotateCw,
+  Settings2,
+  BarChart3,
+  Globe,
+  ScrollText,
+  Undo2,
+  Download,
+  Upload,
+  GraduationCap,
+  Contrast,
+  Languages,
+  Star,
+  CalendarDays,
+  Lightbulb,
+  Medal,
+  Calculator,
+  Volume2,
+  VolumeX
 } from 'lucide-react';
-import { Card, GameState, Suit, GameStatus, Turn } from './types';
+import { Card, GameState, GameAction, MatchState, PlayerConfig, RuleSet, Suit, Tournament } from './types';
 import { 
-  createDeck, 
-  shuffle, 
-  isValidMove, 
-  SUIT_SYMBOLS, 
-  SUIT_COLORS, 
-  SUITS 
+  SUITS,
+  isWild
 } from './constants';
+import { 
+  initGame, 
+  getTopCard, 
+  getHand, 
+  getNextSeat, 
+  getDrawableCount, 
+  getRejection, 
+  isPlayable, 
+  applyAction, 
+  reduce 
+} from './engine';
+import { chooseAiAction, createStrategy, keepsTurn } from './ai';
+import { DEFAULT_SEARCH_BUDGET, SearchBudget } from './ai/ismcts';
+import { searchInWorker } from './ai/expertWorker';
+import { createPlayerView } from './view';
+import { describeRules } from './rules';
+import { SetupPanel } from './components/SetupPanel';
+import { GameOverModal } from './components/GameOverModal';
+import { createMatch, recordRound } from './match';
+import { StatsPanel } from './components/StatsPanel';
+import { createFinishedGame, saveGame, submitDailyGame } from './api';
+import { DailyPanel } from './components/DailyPanel';
+import { createDailyGame, getDailyDate, getDailyGameDate, isDailySeed } from './daily';
+import { TournamentPanel } from './components/TournamentPanel';
+import { findActivePairing, getPairingMatch, getPairingPlayers, loadTournaments, recordTournamentGame, saveTournaments } from './tournament';
+import { useOnlineGame } from './online/useOnlineGame';
+import { OnlinePanel } from './components/OnlinePanel';
+import { useFocusTrap } from './useFocusTrap';
+import { useTurnClock } from './useTurnClock';
+import { DEFAULT_TIME_CONTROL, TimeControl, formatClock, getTimeoutAction } from './clock';
+import { loadPreference, savePreference } from './preferences';
+import { ThemeKey, DEFAULT_THEME, isThemeKey, setTheme, getTheme, setCardBack, getCardBack, getCardColor } from './themes';
+import { AnimationSpeed, DEFAULT_ANIMATION_SPEED, isAnimationSpeed, setAnimationSpeed, getAnimationScale, scaleDuration } from './animation';
+import { SoundSettings, DEFAULT_SOUND_SETTINGS, setSoundSettings, playSound, vibrateForTurn, getSoundCue } from './sound';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CoachPanel } from './components/CoachPanel';
+import { CardTracker } from './components/CardTracker';
+import { ReplayViewer } from './components/ReplayViewer';
+import { getLogActions, undoLastTurn } from './history';
+import { Hint, explainRejection, getHints } from './hints';
+import { createCoachSnapshot, describeMove } from './coach';
+import { LOCALES, Locale, t, sentences, cardName, rankName, suitName, displayName, difficultyName, setLocale, detectLocale } from './i18n';
+import { clearStorage, createGameRecord, downloadGameRecord, loadFromStorage, parseGameRecord, saveToStorage } from './gameRecord';
 
 // --- Components ---
 
@@ -40,56 +97,107 @@ const CardComponent = ({
   onClick, 
   isPlayable = false,
   isSmall = false,
-  className = ""
+  className = "",
+  ariaLabel,
+  pickedAt,
+  onReject,
+  shaking = false
 }: { 
   card: Card; 
   isFaceUp?: boolean; 
   onClick?: () => void;
+  onReject?: () => void; // Clicked while not playable
+  shaking?: boolean;
   isPlayable?: boolean;
   isSmall?: boolean;
   className?: string;
+  ariaLabel?: string; // Defaults to the card's name, or hidden for a face-down card
+  pickedAt?: number; // Place in the set being picked, from 1
   key?: React.Key; // Added key to props type to satisfy linter
 }) => {
+  const theme = getTheme();
+  const cardBack = getCardBack();
+  const color = isFaceUp ? getCardColor(card) : '';
+  // Reduced motion keeps cards still: no sliding into place, lifting on hover or shaking
+  const reduceMotion = useReducedMotion() || getAnimationScale() === 0;
+  const transition = reduceMotion ? { duration: 0 } : getAnimationScale() === 1 ? undefined : { duration: scaleDuration(0.3) };
+  const shake = shaking && !reduceMotion;
+  // Cards with an action are buttons; the rest are decoration for screen readers
+  const label = ariaLabel ?? (!isFaceUp ? undefined
+    : pickedAt ? t('card.picked', { card: cardName(card), position: pickedAt })
+    : onClick ? t(isPlayable ? 'card.playable' : 'card.notPlayable', { card: cardName(card) })
+    : cardName(card));
   return (
     <motion.div
-      layout
-      initial={{ scale: 0.8, opacity: 0, y: 20 }}
-      animate={{ scale: 1, opacity: 1, y: 0 }}
-      whileHover={isPlayable ? { y: -10, scale: 1.05 } : {}}
-      onClick={isPlayable ? onClick : undefined}
+      layout={!reduceMotion}
+      initial={reduceMotion ? false : { scale: 0.8, opacity: 0, y: 20 }}
+      animate={{ scale: 1, opacity: 1, y: pickedAt ? -16 : 0, x: shake ? [0, -8, 8, -6, 6, -3, 0] : 0 }}
+      transition={shake ? { ...transition, x: { duration: scaleDuration(0.4) } } : transition}
+      whileHover={isPlayable && !reduceMotion ? { y: -10, scale: 1.05 } : {}}
+      whileFocus={isPlayable && !reduceMotion ? { y: -10, scale: 1.05 } : {}}
+      onClick={isPlayable ? onClick : onReject}
+      onKeyDown={onClick ? (e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        if (isPlayable) onClick();
+        else onReject?.();
+      } : undefined}
+      role={onClick ? 'button' : label ? 'img' : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      aria-label={label}
+      aria-disabled={onClick ? !isPlayable : undefined}
+      aria-pressed={pickedAt !== undefined ? true : undefined}
+      aria-hidden={label ? undefined : true}
       className={`
-        relative ${isSmall ? 'w-16 h-24' : 'w-24 h-36 md:w-28 md:h-40'} 
+        relative ${isSmall ? theme.smallSize : theme.size} 
         rounded-xl border-2 transition-all duration-200
-        ${isFaceUp ? 'bg-white border-slate-200' : 'bg-indigo-700 border-indigo-400'}
+        ${isFaceUp ? `${theme.face} ${theme.faceBorder}` : theme.back}
         ${isPlayable ? 'cursor-pointer ring-4 ring-yellow-400 ring-opacity-50 shadow-xl' : 'shadow-md'}
         flex flex-col items-center justify-center select-none
         ${className}
       `}
     >
-      {isFaceUp ? (
+      {pickedAt && (
+        <span aria-hidden className="absolute -top-3 -right-3 z-10 w-6 h-6 rounded-full bg-yellow-400 text-emerald-950 text-xs font-bold flex items-center justify-center shadow-lg">
+          {pickedAt}
+        </span>
+      )}
+      {isFaceUp && !card.suit ? (
+        <>
+          <div className={`absolute top-2 left-2 flex flex-col items-center leading-none ${color}`}>
+            <span className="text-[10px] font-bold uppercase tracking-tighter [writing-mode:vertical-lr]">{rankName('Joker')}</span>
+          </div>
+          <Star className={`fill-current ${theme.pip} ${color}`} />
+          <div className={`absolute bottom-2 right-2 flex flex-col items-center leading-none rotate-180 ${color}`}>
+            <span className="text-[10px] font-bold uppercase tracking-tighter [writing-mode:vertical-lr]">{rankName('Joker')}</span>
+          </div>
+        </>
+      ) : isFaceUp ? (
         <>
-          <div className={`absolute top-2 left-2 flex flex-col items-center leading-none ${SUIT_COLORS[card.suit]}`}>
-            <span className="text-lg font-bold">{card.rank}</span>
-            <SuitIcon suit={card.suit} className="w-4 h-4" />
+          <div className={`absolute top-2 left-2 flex flex-col items-center leading-none ${color}`}>
+            <span className={`${theme.cornerRank} font-bold`}>{card.rank}</span>
+            <SuitIcon suit={card.suit} className={theme.cornerIcon} />
           </div>
-          <div className={`text-4xl ${SUIT_COLORS[card.suit]}`}>
-            <SuitIcon suit={card.suit} className="w-10 h-10" />
+          <div className={color}>
+            <SuitIcon suit={card.suit} className={theme.pip} />
           </div>
-          <div className={`absolute bottom-2 right-2 flex flex-col items-center leading-none rotate-180 ${SUIT_COLORS[card.suit]}`}>
-            <span className="text-lg font-bold">{card.rank}</span>
-            <SuitIcon suit={card.suit} className="w-4 h-4" />
+          <div className={`absolute bottom-2 right-2 flex flex-col items-center leading-none rotate-180 ${color}`}>
+            <span className={`${theme.cornerRank} font-bold`}>{card.rank}</span>
+            <SuitIcon suit={card.suit} className={theme.cornerIcon} />
           </div>
         </>
+      ) : cardBack ? (
+        <img src={cardBack} alt="" className="w-full h-full object-cover rounded-lg" />
       ) : (
         <div className="w-full h-full flex items-center justify-center overflow-hidden rounded-lg">
-          <div className="w-full h-full bg-indigo-800 opacity-20 grid grid-cols-4 gap-1 p-1">
+          <div className={`w-full h-full ${theme.backPattern} opacity-20 grid grid-cols-4 gap-1 p-1`}>
             {Array.from({ length: 16 }).map((_, i) => (
               <div key={i} className="bg-white rounded-sm" />
             ))}
           </div>
           <div className="absolute inset-0 flex items-center justify-center">
              <div className="w-12 h-12 rounded-full border-4 border-white/20 flex items-center justify-center">
-                <span className="text-white font-serif italic text-xl">T</span>
+                <span className="text-white font-serif italic text-xl">{theme.monogram}</span>
              </div>
           </div>
         </div>
@@ -98,209 +206,623 @@ const CardComponent = ({
   );
 };
 
+// Card backs sweeping from the discard pile into the draw pile; remounted per reshuffle
+const ReshuffleBurst = () => {
+  if (useReducedMotion() || getAnimationScale() === 0) return null;
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <motion.div
+          key={i}
+          initial={{ x: 160, rotate: 12 * (i - 2), opacity: 1 }}
+          animate={{ x: 0, rotate: 0, opacity: 0 }}
+          transition={{ duration: scaleDuration(0.6), delay: scaleDuration(i * 0.08), ease: 'easeOut' }}
+          className={`absolute inset-0 rounded-xl border-2 shadow-md ${getTheme().back}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+// --- Status Messages ---
+
+const describeTurn = (state: GameState): string => {
+  const seat = state.seats[state.currentSeat];
+  if (seat.kind === 'ai') return t('status.thinking', { name: displayName(seat.name) });
+  return seat.name === 'You' ? t('status.yourTurn') : t('status.playerTurn', { name: displayName(seat.name) });
+};
+
+// `revealSeat` is the only seat whose drawn cards may be named; hot-seat games keep draws private
+const describeAction = (action: GameAction, prev: GameState, next: GameState, revealSeat: number | null): string | null => {
+  if (next.status === 'game_over') return null;
+  const name = displayName(next.seats[action.seat].name);
+  const isHuman = next.seats[action.seat].kind === 'human';
+  const turnText = describeTurn(next);
+  const penaltyText = next.pendingDraw > 0 && t('action.penaltyPending', { count: next.pendingDraw });
+  const reshuffleText = next.reshuffles > prev.reshuffles && t('action.reshuffled');
+
+  switch (action.type) {
+    case 'play_card': {
+      // A set's cards are the last ones on the pile
+      const cards = next.discardPile.slice(-1 - (action.extraCardIds?.length ?? 0));
+      if (isWild(cards[0])) return isHuman ? t(cards[0].rank === 'Joker' ? 'action.joker' : 'action.crazyEight') : null;
+      const reverseText = next.direction !== prev.direction && t('action.reverse');
+      const skipped = getNextSeat(next, action.seat);
+      const skipText = skipped !== next.currentSeat && skipped !== action.seat && t('action.skipped', { name: displayName(next.seats[skipped].name) });
+      const card = cards.map(cardName).join(t('list.separator'));
+      return sentences(t('action.played', { name, card }), reverseText, skipText, penaltyText, turnText);
+    }
+    case 'draw_card': {
+      const hand = getHand(next, action.seat);
+      const drawnCount = hand.length - getHand(prev, action.seat).length;
+      if (drawnCount > 1) return sentences(reshuffleText, t('action.drewCards', { name, count: drawnCount }), turnText);
+      if (action.seat === revealSeat) {
+        return sentences(reshuffleText, t('action.drewCard', { name, card: cardName(hand[hand.length - 1]) }), turnText);
+      }
+      return next.currentSeat === action.seat
+        ? sentences(reshuffleText, t('action.drewHidden', { name }))
+        : sentences(reshuffleText, t('action.drewAndPassed', { name }), turnText);
+    }
+    case 'choose_suit':
+      return isHuman
+        ? sentences(t('action.suitChanged', { suit: suitName(action.suit) }), turnText, penaltyText)
+        : sentences(t(getTopCard(next).rank === 'Joker' ? 'action.aiJokerSuitChanged' : 'action.aiSuitChanged', { name, suit: suitName(action.suit) }), penaltyText, turnText);
+    case 'pass':
+      return sentences(t('action.passed', { name }), turnText);
+  }
+};
+
+// --- URL Seed ---
+
+// `?seed=abc` replays a specific deal, though never a Daily Challenge's; the current seed is
+// mirrored back so the URL can be shared
+const getUrlSeed = (): string | undefined => {
+  const seed = new URLSearchParams(window.location.search).get('seed');
+  return seed && !isDailySeed(seed) ? seed : undefined;
+};
+
+const setUrlSeed = (seed: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('seed', seed);
+  window.history.replaceState(null, '', url);
+};
+
+// --- Saved Games ---
+
+// The autosaved game is resumed unless the URL asks for a different deal
+const loadInitialGame = (): GameState => {
+  const urlSeed = getUrlSeed();
+  let saved = loadFromStorage();
+  if (saved && isDailySeed(saved.seed) && !getDailyGameDate(saved)) saved = null;
+  return saved && (!urlSeed || urlSeed === saved.seed) ? saved : initGame(urlSeed);
+};
+
+const getPlayers = (state: GameState): PlayerConfig[] => state.seats.map(({ hand, ...player }) => player);
+
 // --- Main App ---
 
+// Applied before the first render like the language, falling back if a saved theme was retired
+const loadInitialTheme = (): ThemeKey => {
+  const saved = loadPreference<string>('theme', DEFAULT_THEME);
+  const theme = isThemeKey(saved) ? saved : DEFAULT_THEME;
+  setTheme(theme);
+  return theme;
+};
+
+const loadInitialAnimationSpeed = (): AnimationSpeed => {
+  const saved = loadPreference<string>('animationSpeed', DEFAULT_ANIMATION_SPEED);
+  const speed = isAnimationSpeed(saved) ? saved : DEFAULT_ANIMATION_SPEED;
+  setAnimationSpeed(speed);
+  return speed;
+};
+
+const loadInitialCardBack = (): string | null => {
+  const image = loadPreference<string | null>('cardBack', null);
+  setCardBack(image);
+  return image;
+};
+
+// The saved language, if it's still one we ship, else the browser's
+const loadInitialLocale = (): Locale => {
+  const saved = loadPreference<string>('locale', detectLocale());
+  const locale = LOCALES.find(l => l.key === saved)?.key ?? detectLocale();
+  setLocale(locale);
+  return locale;
+};
+
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>({
-    deck: [],
-    playerHand: [],
-    aiHand: [],
-    discardPile: [],
-    currentTurn: 'player',
-    status: 'dealing',
-    winner: null,
-    pendingSuitChange: false,
-    currentSuit: null,
+  // First, so every message built during the initial render is in the right language
+  const [locale, setLocaleState] = useState(loadInitialLocale);
+  const [theme, setThemeState] = useState(loadInitialTheme);
+  const [cardBack, setCardBackState] = useState(loadInitialCardBack);
+  const [animationSpeed, setAnimationSpeedState] = useState(loadInitialAnimationSpeed);
+  const [initialGame] = useState(loadInitialGame);
+  const [rules, setRules] = useState<RuleSet>(initialGame.rules);
+  const [players, setPlayers] = useState<PlayerConfig[]>(() => getPlayers(initialGame));
+  const [localState, setGameState] = useState<GameState>(initialGame);
+  const [showSetup, setShowSetup] = useState(false);
+  const [expertBudget, setExpertBudget] = useState<SearchBudget>(DEFAULT_SEARCH_BUDGET);
+  // Latest Expert win-probability estimate per seat, for debugging
+  const [winEstimates, setWinEstimates] = useState<Record<number, number>>({});
+  // Hot-seat: which human has taken the device for their turn
+  const [revealedSeat, setRevealedSeat] = useState<number | null>(null);
+
+  // A tournament pairing left unfinished at the table carries on after a reload
+  const [tournaments, setTournaments] = useState<Tournament[]>(() => {
+    const loaded = loadTournaments();
+    return findActivePairing(loaded, initialGame) ? loaded : loaded.map(other => ({ ...other, active: null }));
   });
+  const [showTournaments, setShowTournaments] = useState(false);
 
-  const [message, setMessage] = useState("Welcome to Tina's Crazy Eights!");
+  // Null target plays single games; otherwise rounds are scored until someone reaches it
+  const [matchTarget, setMatchTarget] = useState<number | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(() => {
+    const resumed = findActivePairing(tournaments, initialGame);
+    return resumed && getPairingMatch(resumed.tournament, resumed.index);
+  });
+
+  const [showStats, setShowStats] = useState(false);
+  const [showDaily, setShowDaily] = useState(false);
+  const [dailyName, setDailyName] = useState(() => loadPreference('dailyName', ''));
+  // Every challenge date this device has dealt, so none can be replayed for a better score
+  const [dailyPlayed, setDailyPlayed] = useState<string[]>(() => loadPreference('dailyPlayed', []));
+  const [showHistory, setShowHistory] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showCoach, setShowCoach] = useState(false);
+  const [showTracker, setShowTracker] = useState(() => loadPreference('showTracker', false));
+  const [highContrast, setHighContrast] = useState(() => loadPreference('highContrast', false));
+  const [timeControl, setTimeControl] = useState<TimeControl>(() => ({ ...DEFAULT_TIME_CONTROL, ...loadPreference('timeControl', {}) }));
+  const [sound, setSound] = useState<SoundSettings>(() => ({ ...DEFAULT_SOUND_SETTINGS, ...loadPreference('sound', {}) }));
+
+  // While seated at an online table the server's game replaces the local one
+  const online = useOnlineGame();
+  const [showOnline, setShowOnline] = useState(false);
+  const isOnline = online.state !== null;
+  const gameState = online.state ?? localState;
+  const dailyDate = useMemo(
+    () => (isOnline ? null : getDailyGameDate(gameState)),
+    [isOnline, gameState.seed, gameState.rules, gameState.dealer, gameState.seats.length],
+  );
+
+  const [message, setMessage] = useState(() => initialGame.log.length > 1
+    ? t('status.welcomeBack', { turn: describeTurn(initialGame) })
+    : t('status.welcome'));
+
+  // When this game was dealt, reported to the stats server when it ends
+  const startedAtRef = useRef(Date.now());
+  const savedSeedRef = useRef<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const deal = (next: GameState) => {
+    startedAtRef.current = Date.now();
+    setGameState(next);
+    setRevealedSeat(null);
+    setWinEstimates({});
+    setShowReplay(false);
+    setMessage(t('status.dealt', { turn: describeTurn(next) }));
+  };
+
+  // Any other game takes the table away from the tournament
+  const leaveTournament = () => setTournaments(ts => ts.map(other => (other.active === null ? other : { ...other, active: null })));
 
   // Initialize Game
-  const initGame = useCallback(() => {
-    const fullDeck = shuffle(createDeck());
-    const playerHand = fullDeck.slice(0, 8);
-    const aiHand = fullDeck.slice(8, 16);
-    const remainingDeck = fullDeck.slice(16);
-    
-    // Find first non-8 card for discard pile
-    let firstDiscardIndex = 0;
-    while (remainingDeck[firstDiscardIndex].rank === '8') {
-      firstDiscardIndex++;
+  const startGame = useCallback(() => {
+    leaveTournament();
+    const nextMatch = matchTarget ? createMatch(matchTarget, players.length) : null;
+    setMatch(nextMatch);
+    deal(initGame(undefined, rules, players, nextMatch?.dealer));
+  }, [rules, players, matchTarget]);
+
+  // The table and rules in Game Setup are left alone for the next ordinary game
+  const startDaily = () => {
+    const date = getDailyDate();
+    if (dailyPlayed.includes(date) || !dailyName.trim()) return;
+    setDailyPlayed([...dailyPlayed, date]);
+    leaveTournament();
+    setMatch(null);
+    setShowDaily(false);
+    const next = createDailyGame(date, dailyName.trim());
+    deal(next);
+    setMessage(sentences(t('daily.started', { date }), describeTurn(next)));
+  };
+
+  // Picks a pairing's match up where it stands, with the tournament's rules
+  const playPairing = (id: string, index: number) => {
+    const tournament = tournaments.find(other => other.id === id)!;
+    const pairingMatch = getPairingMatch(tournament, index);
+    setTournaments(ts => ts.map(other => ({ ...other, active: other.id === id ? index : null })));
+    setShowTournaments(false);
+    setMatch(pairingMatch);
+    deal(initGame(undefined, tournament.rules, getPairingPlayers(tournament, index), pairingMatch.dealer));
+  };
+
+  // Same table and rules as the round just played, dealt by the next player
+  const nextRound = () => {
+    if (!match) return;
+    const recorded = recordRound(match, gameState);
+    setMatch(recorded);
+    deal(initGame(undefined, gameState.rules, getPlayers(gameState), recorded.dealer));
+  };
+
+  const importGame = async (file: File) => {
+    try {
+      const imported = parseGameRecord(await file.text());
+      // Reloading an earlier position would be an undo by other means
+      if (isDailySeed(imported.seed) && (imported.status !== 'game_over' || !getDailyGameDate(imported))) {
+        throw new Error(t('daily.noImport'));
+      }
+      // Someone else's finished game is for review; it doesn't count toward our stats
+      savedSeedRef.current = imported.status === 'game_over' ? imported.seed : null;
+      setRules(imported.rules);
+      setPlayers(getPlayers(imported));
+      leaveTournament();
+      setMatch(null);
+      deal(imported);
+      setMessage(imported.status === 'game_over'
+        ? t('status.loadedFinished', { seed: imported.seed })
+        : t('status.loaded', { seed: imported.seed, turn: describeTurn(imported) }));
+    } catch (error) {
+      setMessage(t('status.loadFailed', { error: (error as Error).message }));
     }
-    
-    const initialDiscard = remainingDeck.splice(firstDiscardIndex, 1);
-
-    setGameState({
-      deck: remainingDeck,
-      playerHand,
-      aiHand,
-      discardPile: initialDiscard,
-      currentTurn: 'player',
-      status: 'playing',
-      winner: null,
-      pendingSuitChange: false,
-      currentSuit: null,
-    });
-    setMessage("Your turn! Match the suit or rank.");
-  }, []);
+  };
+
+  // Totals including the round just finished, before the next one is dealt
+  const matchStanding = match && !isOnline ? recordRound(match, gameState) : null;
 
   useEffect(() => {
-    initGame();
-  }, [initGame]);
+    document.documentElement.classList.toggle('high-contrast', highContrast);
+    savePreference('highContrast', highContrast);
+  }, [highContrast]);
 
-  const topCard = gameState.discardPile[gameState.discardPile.length - 1];
+  useEffect(() => {
+    savePreference('timeControl', timeControl);
+  }, [timeControl]);
 
-  // Handle Player Move
-  const handlePlayCard = (card: Card) => {
-    if (gameState.currentTurn !== 'player' || gameState.status !== 'playing') return;
-
-    if (isValidMove(card, topCard, gameState.currentSuit)) {
-      const newPlayerHand = gameState.playerHand.filter(c => c.id !== card.id);
-      const newDiscardPile = [...gameState.discardPile, card];
-
-      if (newPlayerHand.length === 0) {
-        setGameState(prev => ({
-          ...prev,
-          playerHand: newPlayerHand,
-          discardPile: newDiscardPile,
-          status: 'game_over',
-          winner: 'player'
-        }));
-        return;
-      }
+  useEffect(() => {
+    setSoundSettings(sound);
+    savePreference('sound', sound);
+  }, [sound]);
 
-      if (card.rank === '8') {
-        setGameState(prev => ({
-          ...prev,
-          playerHand: newPlayerHand,
-          discardPile: newDiscardPile,
-          status: 'suit_selection',
-          pendingSuitChange: true
-        }));
-        setMessage("Crazy 8! Choose a new suit.");
-      } else {
-        setGameState(prev => ({
-          ...prev,
-          playerHand: newPlayerHand,
-          discardPile: newDiscardPile,
-          currentTurn: 'ai',
-          currentSuit: null
-        }));
-        setMessage("AI is thinking...");
-      }
+  useEffect(() => {
+    savePreference('showTracker', showTracker);
+  }, [showTracker]);
+
+  useEffect(() => {
+    savePreference('dailyName', dailyName);
+  }, [dailyName]);
+
+  useEffect(() => {
+    saveTournaments(tournaments);
+  }, [tournaments]);
+
+  useEffect(() => {
+    savePreference('dailyPlayed', dailyPlayed);
+  }, [dailyPlayed]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+    setMessage(describeTurn(gameState));
+  };
+
+  const changeTheme = (next: ThemeKey) => {
+    setTheme(next);
+    setThemeState(next);
+  };
+
+  useEffect(() => {
+    savePreference('theme', theme);
+  }, [theme]);
+
+  const changeAnimationSpeed = (next: AnimationSpeed) => {
+    setAnimationSpeed(next);
+    setAnimationSpeedState(next);
+  };
+
+  useEffect(() => {
+    savePreference('animationSpeed', animationSpeed);
+  }, [animationSpeed]);
+
+  // The image is saved before it's shown, so one too big for storage is refused outright
+  const changeCardBack = (image: string | null): boolean => {
+    try {
+      savePreference('cardBack', image);
+    } catch {
+      return false;
     }
+    setCardBack(image);
+    setCardBackState(image);
+    return true;
   };
 
-  const handleDrawCard = () => {
-    if (gameState.currentTurn !== 'player' || gameState.status !== 'playing') return;
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t('app.title');
+    savePreference('locale', locale);
+  }, [locale]);
+
+  // Only unfinished games are worth resuming
+  useEffect(() => {
+    if (localState.status === 'game_over') clearStorage();
+    else saveToStorage(localState);
+  }, [localState]);
+
+  // Online games have no seed to share
+  useEffect(() => {
+    if (gameState.seed) setUrlSeed(gameState.seed);
+  }, [gameState.seed]);
+
+  const tournamentGame = isOnline ? null : findActivePairing(tournaments, gameState);
+
+  useEffect(() => {
+    if (!tournamentGame || gameState.status !== 'game_over') return;
+    const { tournament, index } = tournamentGame;
+    setTournaments(ts => ts.map(other => (other.id === tournament.id ? recordTournamentGame(other, index, gameState) : other)));
+  }, [gameState]);
+
+  // The server records online games itself
+  useEffect(() => {
+    if (isOnline || gameState.status !== 'game_over' || savedSeedRef.current === gameState.seed) return;
+    savedSeedRef.current = gameState.seed;
+    saveGame(createFinishedGame(gameState, Date.now() - startedAtRef.current))
+      .catch((error) => console.warn('Game not recorded:', error.message));
+    if (dailyDate) {
+      submitDailyGame(createGameRecord(gameState), Date.now() - startedAtRef.current)
+        .then((entry) => setMessage(t('daily.ranked', { rank: entry.rank })))
+        .catch((error) => setMessage(t('daily.notRecorded', { error: error.message })));
+    }
+  }, [gameState, isOnline]);
+
+  useEffect(() => {
+    if (!online.state) return;
+    const text = online.lastAction && online.previousState
+      ? describeAction(online.lastAction, online.previousState, online.state, online.seat)
+      : t('status.dealt', { turn: describeTurn(online.state) });
+    if (text) setMessage(text);
+  }, [online.state]);
+
+  useEffect(() => {
+    if (online.error) setMessage(online.error);
+  }, [online.error]);
 
-    if (gameState.deck.length === 0) {
-      setMessage("Deck is empty! Skipping turn.");
-      setTimeout(() => {
-        setGameState(prev => ({ ...prev, currentTurn: 'ai' }));
-      }, 1000);
+  useEffect(() => {
+    if (isOnline) setShowOnline(false);
+  }, [isOnline]);
+
+  const topCard = getTopCard(gameState);
+  const humanSeats = gameState.seats.flatMap((s, i) => (s.kind === 'human' ? [i] : []));
+  const soloSeat = isOnline ? online.seat : humanSeats.length === 1 ? humanSeats[0] : null;
+  // Hot-seat hands are only shown to their owner during their own turn
+  const viewerSeat = soloSeat ?? (revealedSeat === gameState.currentSeat ? revealedSeat : null);
+  const currentPlayer = gameState.seats[gameState.currentSeat];
+  const isMyTurn = viewerSeat !== null && gameState.currentSeat === viewerSeat;
+  const needsHandoff = !isOnline && humanSeats.length > 1 && currentPlayer.kind === 'human' && revealedSeat !== gameState.currentSeat
+    && gameState.status !== 'game_over';
+
+  // Opponents read in turn order starting after the viewer
+  const anchorSeat = viewerSeat ?? 0;
+  const opponentSeats = gameState.seats
+    .map((_, i) => (anchorSeat + 1 + i) % gameState.seats.length)
+    .filter(i => i !== viewerSeat);
+
+  // One sound per change of position, wherever it came from: a move, the AI, the server or a new deal
+  const heardStateRef = useRef(gameState);
+  useEffect(() => {
+    const cue = getSoundCue(heardStateRef.current, gameState, soloSeat);
+    heardStateRef.current = gameState;
+    if (cue) playSound(cue);
+  }, [gameState]);
+
+  // A buzz as the turn passes to a human, for phones left on the table between turns
+  const humanTurn = gameState.status !== 'game_over'
+    && (soloSeat !== null ? gameState.currentSeat === soloSeat : currentPlayer.kind === 'human');
+  const turnKey = humanTurn ? `${gameState.seed}:${gameState.currentSeat}` : null;
+  useEffect(() => {
+    if (turnKey) vibrateForTurn();
+  }, [turnKey]);
+
+  const dispatch = (action: GameAction) => {
+    if (isOnline) {
+      online.sendAction(action);
       return;
     }
+    const result = applyAction(gameState, action);
+    if (!result.ok) return;
+    setGameState(result.state);
+    const text = describeAction(action, gameState, result.state, soloSeat);
+    if (text) setMessage(text);
+  };
+
+  // With sets allowed, a card that has partners of its rank is picked rather than played.
+  // Picks are card ids in the order they'll go down.
+  const [picked, setPicked] = useState<string[]>([]);
+  const myHand = viewerSeat === null ? [] : gameState.seats[viewerSeat].hand;
+  const pickedRank = myHand.find(c => c.id === picked[0])?.rank;
 
-    const [drawnCard, ...remainingDeck] = gameState.deck;
-    const newHand = [...gameState.playerHand, drawnCard];
-    
-    setGameState(prev => ({
-      ...prev,
-      deck: remainingDeck,
-      playerHand: newHand,
-      currentTurn: 'ai'
-    }));
-    setMessage(`You drew ${drawnCard.rank} of ${drawnCard.suit}. AI's turn.`);
+  // Hints and a shaking card are about the position they were asked in
+  const [hints, setHints] = useState<Hint[] | null>(null);
+  const [shakingCard, setShakingCard] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPicked([]);
+    setHints(null);
+  }, [gameState]);
+
+  useEffect(() => {
+    if (!shakingCard) return;
+    const timer = setTimeout(() => setShakingCard(null), 400);
+    return () => clearTimeout(timer);
+  }, [shakingCard]);
+
+  const pickedAction: GameAction | null = picked.length > 0 && viewerSeat !== null
+    ? { type: 'play_card', seat: viewerSeat, cardId: picked[0], ...(picked.length > 1 && { extraCardIds: picked.slice(1) }) }
+    : null;
+  const canPlayPicked = isMyTurn && pickedAction !== null && getRejection(gameState, pickedAction) === null;
+
+  const isSelectable = (card: Card) => isMyTurn && gameState.status === 'playing'
+    && (isPlayable(gameState, card) || (pickedRank !== undefined && card.rank === pickedRank));
+
+  // Handle Player Move
+  const handlePlayCard = (card: Card) => {
+    if (viewerSeat === null) return;
+    const hasPartners = myHand.some(c => c.rank === card.rank && c.id !== card.id);
+    if (!gameState.rules.multiCardPlay || (picked.length === 0 && !hasPartners)) {
+      dispatch({ type: 'play_card', seat: viewerSeat, cardId: card.id });
+    } else if (picked.includes(card.id)) {
+      setPicked(picked.filter(id => id !== card.id));
+    } else {
+      setPicked(card.rank === pickedRank ? [...picked, card.id] : [card.id]);
+    }
+  };
+
+  // An illegal card shakes and the status bar says why
+  const handleRejectCard = (card: Card) => {
+    if (viewerSeat === null) return;
+    const reason = getRejection(gameState, { type: 'play_card', seat: viewerSeat, cardId: card.id });
+    if (!reason) return;
+    setShakingCard(card.id);
+    setMessage(explainRejection(createPlayerView(gameState, viewerSeat), reason));
+  };
+
+  // Like undo, hints and the coach's move advice are left out of the Daily Challenge
+  const canHint = isMyTurn && gameState.status === 'playing' && !dailyDate;
+  const hintView = hints && viewerSeat !== null ? createPlayerView(gameState, viewerSeat) : null;
+
+  const handlePlayPicked = () => {
+    if (canPlayPicked) dispatch(pickedAction!);
+  };
+
+  const drawAction: GameAction = getDrawableCount(gameState) > 0
+    ? { type: 'draw_card', seat: gameState.currentSeat }
+    : { type: 'pass', seat: gameState.currentSeat };
+  const canDraw = isMyTurn && getRejection(gameState, drawAction) === null;
+
+  const handleDrawCard = () => {
+    if (canDraw) dispatch(drawAction);
   };
 
   const handleSuitSelect = (suit: Suit) => {
-    setGameState(prev => ({
-      ...prev,
-      currentSuit: suit,
-      status: 'playing',
-      pendingSuitChange: false,
-      currentTurn: 'ai'
-    }));
-    setMessage(`Suit changed to ${suit}. AI's turn.`);
+    if (viewerSeat === null) return;
+    dispatch({ type: 'choose_suit', seat: viewerSeat, suit });
   };
 
-  // AI Logic
+  // --- Keyboard Play ---
+
+  const isPickingSuit = gameState.status === 'suit_selection' && isMyTurn;
+  const suitPickerRef = useRef<HTMLDivElement>(null);
+  const handoffRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(suitPickerRef, isPickingSuit);
+  useFocusTrap(handoffRef, needsHandoff);
+
+  // Arrow keys walk the hand; Enter and Space are handled by each card
+  const handleHandKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const cards: HTMLElement[] = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="button"]'));
+    const index = cards.indexOf(document.activeElement as HTMLElement);
+    if (index === -1) return;
+    const target = { ArrowLeft: index - 1, ArrowRight: index + 1, Home: 0, End: cards.length - 1 }[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    cards[(target + cards.length) % cards.length].focus();
+  };
+
+  // D draws (or passes), 1–4 name a suit, Escape drops picked cards; ignored while typing in a field
   useEffect(() => {
-    if (gameState.currentTurn === 'ai' && gameState.status === 'playing') {
-      const aiTimer = setTimeout(() => {
-        const playableCards = gameState.aiHand.filter(c => isValidMove(c, topCard, gameState.currentSuit));
-        
-        if (playableCards.length > 0) {
-          // AI Strategy: Prefer non-8s first, then 8s
-          const nonEight = playableCards.find(c => c.rank !== '8');
-          const cardToPlay = nonEight || playableCards[0];
-          
-          const newAiHand = gameState.aiHand.filter(c => c.id !== cardToPlay.id);
-          const newDiscardPile = [...gameState.discardPile, cardToPlay];
-
-          if (newAiHand.length === 0) {
-            setGameState(prev => ({
-              ...prev,
-              aiHand: newAiHand,
-              discardPile: newDiscardPile,
-              status: 'game_over',
-              winner: 'ai'
-            }));
-            return;
-          }
-
-          if (cardToPlay.rank === '8') {
-            // AI picks its most frequent suit
-            const suitCounts = newAiHand.reduce((acc, c) => {
-              acc[c.suit] = (acc[c.suit] || 0) + 1;
-              return acc;
-            }, {} as Record<Suit, number>);
-            
-            const bestSuit = (Object.keys(suitCounts) as Suit[]).sort((a, b) => suitCounts[b] - suitCounts[a])[0] || 'hearts';
-            
-            setGameState(prev => ({
-              ...prev,
-              aiHand: newAiHand,
-              discardPile: newDiscardPile,
-              currentSuit: bestSuit,
-              currentTurn: 'player'
-            }));
-            setMessage(`AI played an 8 and changed suit to ${bestSuit}! Your turn.`);
-          } else {
-            setGameState(prev => ({
-              ...prev,
-              aiHand: newAiHand,
-              discardPile: newDiscardPile,
-              currentTurn: 'player',
-              currentSuit: null
-            }));
-            setMessage(`AI played ${cardToPlay.rank} of ${cardToPlay.suit}. Your turn.`);
-          }
-        } else {
-          // AI must draw
-          if (gameState.deck.length > 0) {
-            const [drawnCard, ...remainingDeck] = gameState.deck;
-            setGameState(prev => ({
-              ...prev,
-              deck: remainingDeck,
-              aiHand: [...prev.aiHand, drawnCard],
-              currentTurn: 'player'
-            }));
-            setMessage("AI had no moves and drew a card. Your turn.");
-          } else {
-            setGameState(prev => ({ ...prev, currentTurn: 'player' }));
-            setMessage("AI had no moves and deck is empty. Your turn.");
-          }
-        }
-      }, 1500);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || (e.target as HTMLElement).closest('input, select, textarea')) return;
+      if (e.key === 'Escape' && picked.length > 0) {
+        setPicked([]);
+      } else if (e.key.toLowerCase() === 'd' && canDraw) {
+        handleDrawCard();
+      } else if (isPickingSuit && e.key >= '1' && e.key <= '4') {
+        handleSuitSelect(SUITS[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
-      return () => clearTimeout(aiTimer);
+  // Take-backs are for single-player games; with other humans at the table they aren't ours to make
+  // A Daily Challenge is one attempt, with no taking back
+  const canUndo = !isOnline && !dailyDate && soloSeat !== null && humanSeats.length === 1 && gameState.status !== 'game_over'
+    && getLogActions(gameState.log).some(a => a.seat === soloSeat);
+
+  const handleUndo = () => {
+    const undone = canUndo && undoLastTurn(gameState, soloSeat);
+    if (!undone) return;
+    setGameState(undone);
+    setWinEstimates({});
+    setMessage(t('status.undone', { turn: describeTurn(undone) }));
+  };
+
+  const winner = gameState.winner !== null ? gameState.seats[gameState.winner] : null;
+
+  // --- Timed Turns ---
+
+  // Time only runs while a human can see their hand; the server doesn't time online tables
+  const clockRunning = !isOnline && currentPlayer.kind === 'human' && gameState.status !== 'game_over' && !needsHandoff;
+
+  const handleTimeout = () => {
+    const action = getTimeoutAction(gameState);
+    const next = reduce(gameState, action);
+    setGameState(next);
+    setMessage(sentences(t('status.timeUp', { name: displayName(currentPlayer.name) }), describeAction(action, gameState, next, soloSeat)));
+  };
+
+  const { turnLeftMs, clockLeftMs } = useTurnClock(gameState, timeControl, clockRunning, handleTimeout);
+
+  // AI Logic (online tables run their AI on the server)
+  useEffect(() => {
+    if (isOnline || currentPlayer.kind !== 'ai' || gameState.status === 'game_over') return;
+    const seat = gameState.currentSeat;
+
+    if (currentPlayer.difficulty === 'expert') {
+      // No artificial delay: the search in the worker is the thinking time.
+      // Follow-ups (suit choice, further draws) come back through this effect.
+      let cancelled = false;
+      const play = (action: GameAction) => {
+        const next = reduce(gameState, action);
+        setGameState(next);
+        const text = describeAction(action, gameState, next, soloSeat);
+        if (text) setMessage(text);
+      };
+      searchInWorker(createPlayerView(gameState, seat), expertBudget).then((result) => {
+        if (cancelled) return;
+        if (!Number.isNaN(result.winProbability)) {
+          setWinEstimates(prev => ({ ...prev, [seat]: result.winProbability }));
+        }
+        play(result.action);
+      }).catch((error) => {
+        // Without its worker the Expert plays this move as the Hard AI rather than stalling the game
+        if (cancelled) return;
+        console.warn('Expert search failed:', (error as Error).message);
+        play(chooseAiAction(gameState, createStrategy('hard')));
+      });
+      return () => {
+        cancelled = true;
+      };
     }
-  }, [gameState.currentTurn, gameState.status, gameState.aiHand, gameState.deck, gameState.discardPile, gameState.currentSuit, topCard]);
+
+    const aiTimer = setTimeout(() => {
+      const strategy = createStrategy(currentPlayer.difficulty);
+      let next = gameState;
+      let text: string | null = null;
+      let action: GameAction;
+      do {
+        action = chooseAiAction(next, strategy);
+        const prev = next;
+        next = reduce(prev, action);
+        text = describeAction(action, prev, next, soloSeat) ?? text;
+      } while (keepsTurn(next, action));
+
+      setGameState(next);
+      if (text) setMessage(text);
+    }, timeControl.aiDelayMs);
+
+    return () => clearTimeout(aiTimer);
+  }, [gameState, currentPlayer, soloSeat, expertBudget, isOnline, timeControl.aiDelayMs]);
 
   return (
-    <div className="h-screen w-full flex flex-col items-center justify-between p-4 felt-texture relative">
+    <div className={`h-screen w-full flex flex-col items-center justify-between p-4 relative ${getTheme().table}`}>
       
       {/* Header */}
       <header className="w-full max-w-5xl flex items-center justify-between z-10">
@@ -308,44 +830,227 @@ export default function App() {
           <div className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center border border-white/20">
             <Trophy className="w-5 h-5 text-yellow-400" />
           </div>
-          <h1 className="text-2xl font-serif font-bold italic tracking-tight text-white">帅气无敌的黄</h1>
+          <h1 className="text-2xl font-serif font-bold italic tracking-tight text-white">{t('app.title')}</h1>
         </div>
         
         <div className="flex items-center gap-4">
           <div className="hidden md:flex items-center gap-2 bg-black/20 px-4 py-2 rounded-full border border-white/10">
             <Info className="w-4 h-4 text-white/60" />
-            <span className="text-xs text-white/80">8 is Wild • Match Suit or Rank</span>
+            <span className="text-xs text-white/80">{describeRules(gameState.rules)}</span>
           </div>
+          {isOnline ? (
+            <div
+              title={t('header.tableCode')}
+              className="flex items-center gap-1 bg-black/20 px-3 py-2 rounded-full border border-white/10 select-all"
+            >
+              <Globe className="w-3 h-3 text-white/60" />
+              <span className="text-xs font-mono text-white/80">{online.lobby?.code}</span>
+            </div>
+          ) : (
+            <div
+              title={t('header.seed')}
+              className="flex items-center gap-1 bg-black/20 px-3 py-2 rounded-full border border-white/10 select-all"
+            >
+              <Hash className="w-3 h-3 text-white/60" />
+              <span className="text-xs font-mono text-white/80">{gameState.seed}</span>
+            </div>
+          )}
+          <button 
+            onClick={() => setShowOnline(true)}
+            title={t('header.online')}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <Globe className="w-5 h-5" />
+          </button>
+          {!isOnline && (
+            <>
+              <button 
+                onClick={() => downloadGameRecord(gameState)}
+                title={t('header.export')}
+                className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <button 
+                onClick={() => importInputRef.current?.click()}
+                title={t('header.import')}
+                className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+              >
+                <Upload className="w-5 h-5" />
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importGame(file);
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
           <button 
-            onClick={initGame}
+            onClick={() => setShowHistory(!showHistory)}
+            title={t('header.history')}
             className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
           >
-            <RotateCcw className="w-5 h-5" />
+            <ScrollText className="w-5 h-5" />
           </button>
+          <button 
+            onClick={() => setSound({ ...sound, muted: !sound.muted })}
+            title={t(sound.muted ? 'header.unmute' : 'header.mute')}
+            aria-pressed={sound.muted}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            {sound.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          </button>
+          <button 
+            onClick={() => setHighContrast(!highContrast)}
+            title={t('header.highContrast')}
+            aria-pressed={highContrast}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <Contrast className="w-5 h-5" />
+          </button>
+          <label
+            title={t('app.language')}
+            className="flex items-center gap-1 p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <Languages className="w-5 h-5" />
+            <select
+              value={locale}
+              onChange={(e) => changeLocale(e.target.value as Locale)}
+              aria-label={t('app.language')}
+              className="bg-transparent text-xs text-white/80 outline-none cursor-pointer"
+            >
+              {LOCALES.map(l => (
+                <option key={l.key} value={l.key} className="text-black">{l.label}</option>
+              ))}
+            </select>
+          </label>
+          <button 
+            onClick={() => setShowTracker(!showTracker)}
+            title={t('header.tracker')}
+            aria-pressed={showTracker}
+            className={`p-2 rounded-full transition-colors border border-white/20 ${showTracker ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            <Calculator className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => setShowCoach(!showCoach)}
+            title={t('header.coach')}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <GraduationCap className="w-5 h-5" />
+          </button>
+          {!isOnline && (
+            <button 
+              onClick={() => setShowDaily(true)}
+              title={t('header.daily')}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+            >
+              <CalendarDays className="w-5 h-5" />
+            </button>
+          )}
+          {!isOnline && (
+            <button 
+              onClick={() => setShowTournaments(true)}
+              title={t('header.tournaments')}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+            >
+              <Medal className="w-5 h-5" />
+            </button>
+          )}
+          <button 
+            onClick={() => setShowStats(true)}
+            title={t('header.stats')}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => setShowSetup(true)}
+            title={t('header.setup')}
+            className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+          >
+            <Settings2 className="w-5 h-5" />
+          </button>
+          {!isOnline && (
+            <button 
+              onClick={startGame}
+              title={t('header.restart')}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20"
+            >
+              <RotateCcw className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </header>
 
+      {/* Match Scoreboard */}
+      {matchStanding && (
+        <div className="w-full max-w-5xl flex flex-wrap items-center justify-center gap-2 mt-2 z-10">
+          <span className="text-[10px] font-mono uppercase tracking-widest text-white/40">
+            {t('match.round', { round: match!.rounds.length + 1, target: matchStanding.target })}
+          </span>
+          {gameState.seats.map((seat, i) => (
+            <div
+              key={i}
+              className="flex items-center gap-2 bg-black/20 px-3 py-1 rounded-full border border-white/10"
+            >
+              <span className="text-xs text-white/80">{displayName(seat.name)}</span>
+              <span className="text-xs font-mono font-bold text-yellow-300">{matchStanding.totals[i]}</span>
+              {i === gameState.dealer && (
+                <span title={t('match.dealer')} className="text-[10px] font-bold bg-white/20 text-white rounded-full w-4 h-4 flex items-center justify-center">D</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Main Table Area */}
       <main className="flex-1 w-full max-w-6xl grid grid-rows-[auto_1fr_auto] gap-4 py-4">
         
-        {/* AI Hand */}
-        <section className="flex flex-col items-center gap-2">
-          <div className="flex items-center gap-2 text-white/60 mb-2">
-            <Cpu className="w-4 h-4" />
-            <span className="text-xs font-mono uppercase tracking-widest">AI Opponent ({gameState.aiHand.length})</span>
-          </div>
-          <div className="flex -space-x-12 md:-space-x-16 overflow-visible h-32 md:h-40 items-center justify-center">
-            <AnimatePresence>
-              {gameState.aiHand.map((card, idx) => (
-                <CardComponent 
-                  key={card.id} 
-                  card={card} 
-                  isFaceUp={false} 
-                  className="z-0"
-                />
-              ))}
-            </AnimatePresence>
-          </div>
+        {/* Opponents */}
+        <section className="flex flex-wrap items-start justify-center gap-6 md:gap-10">
+          {opponentSeats.map((seatIndex) => {
+            const seat = gameState.seats[seatIndex];
+            const isCurrent = seatIndex === gameState.currentSeat && gameState.status !== 'game_over';
+            return (
+              <div key={seatIndex} className="flex flex-col items-center gap-2">
+                <div className={`flex items-center gap-2 mb-2 px-3 py-1 rounded-full transition-colors ${isCurrent ? 'bg-yellow-400/20 text-yellow-200' : 'text-white/60'}`}>
+                  {seat.kind === 'ai' ? <Cpu className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                  <span className="text-xs font-mono uppercase tracking-widest">{displayName(seat.name)} ({seat.hand.length})</span>
+                  {seat.kind === 'ai' && (
+                    <span className="text-[10px] font-mono uppercase text-white/40">{difficultyName(seat.difficulty)}</span>
+                  )}
+                  {online.lobby?.seats[seatIndex]?.connected === false && (
+                    <span title={t('table.awayHint')} className="text-[10px] font-mono uppercase text-white/40">{t('table.away')}</span>
+                  )}
+                  {winEstimates[seatIndex] !== undefined && (
+                    <span title={t('table.winEstimate')} className="text-[10px] font-mono text-white/40">
+                      ≈{Math.round(winEstimates[seatIndex] * 100)}%
+                    </span>
+                  )}
+                </div>
+                <div className={`flex ${opponentSeats.length > 1 ? '-space-x-12' : '-space-x-12 md:-space-x-16'} overflow-visible ${opponentSeats.length > 1 ? 'h-24' : 'h-32 md:h-40'} items-center justify-center`}>
+                  <AnimatePresence>
+                    {seat.hand.map((card) => (
+                      <CardComponent 
+                        key={card.id} 
+                        card={card} 
+                        isFaceUp={false} 
+                        isSmall={opponentSeats.length > 1}
+                        className="z-0"
+                      />
+                    ))}
+                  </AnimatePresence>
+                </div>
+              </div>
+            );
+          })}
         </section>
 
         {/* Center: Deck & Discard */}
@@ -355,24 +1060,36 @@ export default function App() {
             <div className="relative group">
               {gameState.deck.length > 0 ? (
                 <>
-                  <div className="absolute top-1 left-1 w-24 h-36 md:w-28 md:h-40 bg-indigo-900 rounded-xl border-2 border-indigo-400/30 -z-10" />
+                  <div className={`absolute top-1 left-1 ${getTheme().size} ${getTheme().back} brightness-50 rounded-xl border-2 -z-10`} />
                   <CardComponent 
                     card={gameState.deck[0]} 
                     isFaceUp={false} 
-                    isPlayable={gameState.currentTurn === 'player' && gameState.status === 'playing'}
+                    isPlayable={canDraw}
                     onClick={handleDrawCard}
+                    ariaLabel={t('table.drawPileLabel', { count: gameState.deck.length })}
                   />
                   <div className="absolute -bottom-2 -right-2 bg-yellow-400 text-emerald-900 text-[10px] font-bold px-2 py-0.5 rounded-full shadow-lg">
                     {gameState.deck.length}
                   </div>
                 </>
               ) : (
-                <div className="w-24 h-36 md:w-28 md:h-40 rounded-xl border-2 border-dashed border-white/20 flex items-center justify-center">
-                  <span className="text-white/20 text-xs font-mono">EMPTY</span>
+                <div 
+                  onClick={canDraw ? handleDrawCard : undefined}
+                  onKeyDown={(e) => {
+                    if (canDraw && (e.key === 'Enter' || e.key === ' ')) handleDrawCard();
+                  }}
+                  role="button"
+                  tabIndex={canDraw ? 0 : -1}
+                  aria-disabled={!canDraw}
+                  aria-label={getDrawableCount(gameState) > 0 ? t('table.drawPileReshuffles') : t('table.drawPileEmpty')}
+                  className={`${getTheme().size} rounded-xl border-2 border-dashed border-white/20 flex items-center justify-center ${canDraw ? 'cursor-pointer ring-4 ring-yellow-400 ring-opacity-50' : ''}`}
+                >
+                  <span className="text-white/20 text-xs font-mono">{getDrawableCount(gameState) > 0 ? t('table.reshuffle') : t('table.empty')}</span>
                 </div>
               )}
+              {gameState.reshuffles > 0 && <ReshuffleBurst key={gameState.reshuffles} />}
             </div>
-            <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Draw Pile</span>
+            <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">{t('table.drawPile')}</span>
           </div>
 
           {/* Discard Pile */}
@@ -382,22 +1099,29 @@ export default function App() {
                 <CardComponent 
                   card={gameState.discardPile[gameState.discardPile.length - 2]} 
                   className="absolute top-1 left-1 -z-10 rotate-3 opacity-50"
+                  ariaLabel=""
                 />
               )}
-              <CardComponent card={topCard} />
+              <CardComponent
+                card={topCard}
+                ariaLabel={gameState.currentSuit
+                  ? t('table.topCardSuit', { card: cardName(topCard), suit: suitName(gameState.currentSuit) })
+                  : t('table.topCard', { card: cardName(topCard) })}
+              />
               
               {/* Current Suit Indicator (for 8s) */}
               {gameState.currentSuit && (
                 <motion.div 
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
-                  className="absolute -top-4 -right-4 w-10 h-10 rounded-full bg-white shadow-xl border-2 border-yellow-400 flex items-center justify-center"
+                  aria-hidden
+                  className={`absolute -top-4 -right-4 w-10 h-10 rounded-full shadow-xl border-2 border-yellow-400 flex items-center justify-center ${getTheme().face}`}
                 >
-                  <SuitIcon suit={gameState.currentSuit} className={`w-6 h-6 ${SUIT_COLORS[gameState.currentSuit]}`} />
+                  <SuitIcon suit={gameState.currentSuit} className={`w-6 h-6 ${getTheme().suitColors[gameState.currentSuit]}`} />
                 </motion.div>
               )}
             </div>
-            <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Discard Pile</span>
+            <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">{t('table.discardPile')}</span>
           </div>
         </section>
 
@@ -405,17 +1129,36 @@ export default function App() {
         <section className="flex flex-col items-center gap-4">
           <div className="flex items-center gap-2 text-white/60">
             <User className="w-4 h-4" />
-            <span className="text-xs font-mono uppercase tracking-widest">Your Hand ({gameState.playerHand.length})</span>
+            <span className="text-xs font-mono uppercase tracking-widest">
+              {viewerSeat === null
+                ? t('table.handsHidden')
+                : gameState.seats[viewerSeat].name === 'You'
+                  ? t('table.yourHand', { count: gameState.seats[viewerSeat].hand.length })
+                  : t('table.playerHand', { name: displayName(gameState.seats[viewerSeat].name), count: gameState.seats[viewerSeat].hand.length })}
+            </span>
+            {gameState.seats.length > 2 && (
+              gameState.direction === 1
+                ? <RotateCw className="w-4 h-4" aria-label={t('table.clockwise')} />
+                : <RotateCcw className="w-4 h-4" aria-label={t('table.counterClockwise')} />
+            )}
           </div>
           
-          <div className="flex flex-wrap justify-center gap-2 md:gap-4 max-w-4xl px-4">
+          <div
+            role="group"
+            aria-label={t('table.handLabel')}
+            onKeyDown={handleHandKeyDown}
+            className="flex flex-wrap justify-center gap-2 md:gap-4 max-w-4xl px-4"
+          >
             <AnimatePresence>
-              {gameState.playerHand.map((card) => (
+              {viewerSeat !== null && gameState.seats[viewerSeat].hand.map((card) => (
                 <CardComponent 
                   key={card.id} 
                   card={card} 
-                  isPlayable={gameState.currentTurn === 'player' && gameState.status === 'playing' && isValidMove(card, topCard, gameState.currentSuit)}
+                  isPlayable={isSelectable(card)}
                   onClick={() => handlePlayCard(card)}
+                  onReject={() => handleRejectCard(card)}
+                  shaking={shakingCard === card.id}
+                  pickedAt={picked.includes(card.id) ? picked.indexOf(card.id) + 1 : undefined}
                 />
               ))}
             </AnimatePresence>
@@ -426,30 +1169,245 @@ export default function App() {
 
       {/* Footer / Status Bar */}
       <footer className="w-full max-w-5xl mt-4 z-10">
-        <div className="bg-black/30 backdrop-blur-md border border-white/10 rounded-2xl p-4 flex items-center justify-between">
+        {hints && hintView && (
+          <div className="mb-2 bg-black/30 backdrop-blur-md border border-white/10 rounded-2xl p-4">
+            <h3 className="text-[10px] font-mono uppercase tracking-widest text-white/40 mb-2">{t('table.hints')}</h3>
+            <ol className="flex flex-col gap-1 text-sm text-white/80">
+              {hints.slice(0, 3).map((hint, i) => (
+                <li key={i} className="flex gap-2">
+                  <span className={`font-bold ${i === 0 ? 'text-yellow-300' : 'text-white/90'}`}>
+                    {describeMove(hint.action, createCoachSnapshot(hintView))}
+                  </span>
+                  <span className="text-white/60">{hint.reasons.join(t('list.separator'))}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+        <div className="relative overflow-hidden bg-black/30 backdrop-blur-md border border-white/10 rounded-2xl p-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <div className={`w-3 h-3 rounded-full ${gameState.currentTurn === 'player' ? 'bg-emerald-400 animate-pulse' : 'bg-white/20'}`} />
-            <p className="text-sm md:text-base font-medium text-white/90">{message}</p>
+            <div className={`w-3 h-3 rounded-full ${isMyTurn ? 'bg-emerald-400 animate-pulse' : 'bg-white/20'}`} />
+            {turnLeftMs !== null && (
+              <span
+                role="timer"
+                aria-label={t('table.turnTimer')}
+                className={`text-xs font-mono font-bold ${turnLeftMs <= 5000 ? 'text-red-400' : 'text-white/60'}`}
+              >
+                {formatClock(turnLeftMs)}
+              </span>
+            )}
+            <p role="status" aria-live="polite" className="text-sm md:text-base font-medium text-white/90">{message}</p>
           </div>
+
+          {clockLeftMs && (
+            <div className="hidden md:flex items-center gap-2 mx-4">
+              {humanSeats.map(seat => (
+                <span
+                  key={seat}
+                  role="timer"
+                  aria-label={t('table.clock', { name: displayName(gameState.seats[seat].name) })}
+                  className={`px-2 py-1 rounded-lg text-xs font-mono border ${
+                    seat === gameState.currentSeat ? 'border-yellow-400/60 text-yellow-200' : 'border-white/10 text-white/50'
+                  } ${clockLeftMs[seat] <= 0 ? 'text-red-400' : ''}`}
+                >
+                  {displayName(gameState.seats[seat].name)} {formatClock(clockLeftMs[seat])}
+                </span>
+              ))}
+            </div>
+          )}
           
-          {gameState.currentTurn === 'player' && gameState.status === 'playing' && (
-             <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2">
+            {picked.length > 0 && (
+              <>
                 <button 
-                  onClick={handleDrawCard}
+                  onClick={() => setPicked([])}
                   className="flex items-center gap-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
                 >
-                  Draw Card <ChevronRight className="w-3 h-3" />
+                  {t('table.clearPicks')}
                 </button>
-             </div>
+                <button 
+                  onClick={handlePlayPicked}
+                  disabled={!canPlayPicked}
+                  title={t('table.playSetHint')}
+                  className="flex items-center gap-2 bg-yellow-400 hover:bg-yellow-300 disabled:opacity-40 text-emerald-950 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all"
+                >
+                  {t('table.playSet', { count: picked.length })} <ChevronRight className="w-3 h-3" />
+                </button>
+              </>
+            )}
+            {canHint && (
+              <button 
+                onClick={() => setHints(hints ? null : getHints(createPlayerView(gameState, viewerSeat!)))}
+                title={t('table.hintHint')}
+                aria-expanded={hints !== null}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+              >
+                <Lightbulb className="w-3 h-3" /> {t('table.hint')}
+              </button>
+            )}
+            {canUndo && (
+              <button 
+                onClick={handleUndo}
+                title={t('table.undoHint')}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+              >
+                <Undo2 className="w-3 h-3" /> {t('table.undo')}
+              </button>
+            )}
+            {canDraw && (
+              <button 
+                onClick={handleDrawCard}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+              >
+                {gameState.pendingDraw > 0 ? t('table.drawPenalty', { count: gameState.pendingDraw }) : drawAction.type === 'pass' ? t('table.pass') : t('table.drawCard')} <ChevronRight className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+
+          {turnLeftMs !== null && timeControl.turnSeconds !== null && (
+            <div
+              aria-hidden
+              className={`absolute bottom-0 left-0 h-1 transition-[width] duration-100 ease-linear ${turnLeftMs <= 5000 ? 'bg-red-400' : 'bg-yellow-400'}`}
+              style={{ width: `${Math.max(0, turnLeftMs / (timeControl.turnSeconds * 1000)) * 100}%` }}
+            />
           )}
         </div>
       </footer>
 
       {/* Modals & Overlays */}
 
+      {/* Setup Panel */}
+      <AnimatePresence>
+        {showSetup && (
+          <SetupPanel
+            players={players}
+            rules={rules}
+            expertBudget={expertBudget}
+            onExpertBudgetChange={setExpertBudget}
+            matchTarget={matchTarget}
+            onMatchTargetChange={setMatchTarget}
+            timeControl={timeControl}
+            onTimeControlChange={setTimeControl}
+            theme={theme}
+            onThemeChange={changeTheme}
+            cardBack={cardBack}
+            onCardBackChange={changeCardBack}
+            animationSpeed={animationSpeed}
+            onAnimationSpeedChange={changeAnimationSpeed}
+            sound={sound}
+            onSoundChange={setSound}
+            onPlayersChange={setPlayers}
+            onRulesChange={setRules}
+            onApply={() => {
+              setShowSetup(false);
+              startGame();
+            }}
+            onClose={() => setShowSetup(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Move History */}
+      <AnimatePresence>
+        {showHistory && <HistoryPanel state={gameState} revealSeat={soloSeat} onClose={() => setShowHistory(false)} />}
+      </AnimatePresence>
+
+      {/* Card Counter */}
+      <AnimatePresence>
+        {showTracker && (
+          <CardTracker
+            view={viewerSeat !== null && gameState.status !== 'game_over' ? createPlayerView(gameState, viewerSeat) : null}
+            names={gameState.seats.map(s => s.name)}
+            onClose={() => setShowTracker(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Coach */}
+      <AnimatePresence>
+        {showCoach && (
+          <CoachPanel
+            state={gameState}
+            adviseSeat={isMyTurn && !dailyDate ? viewerSeat : null}
+            reviewSeat={isOnline ? null : soloSeat ?? humanSeats[0] ?? null}
+            onClose={() => setShowCoach(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Online Panel */}
+      <AnimatePresence>
+        {showOnline && <OnlinePanel online={online} rules={rules} onClose={() => setShowOnline(false)} />}
+      </AnimatePresence>
+
+      {/* Stats Panel */}
+      <AnimatePresence>
+        {showStats && <StatsPanel onClose={() => setShowStats(false)} />}
+      </AnimatePresence>
+
+      {/* Tournaments */}
+      <AnimatePresence>
+        {showTournaments && (
+          <TournamentPanel
+            tournaments={tournaments}
+            rules={rules}
+            playing={tournamentGame && gameState.status !== 'game_over'
+              ? { id: tournamentGame.tournament.id, index: tournamentGame.index }
+              : null}
+            onChange={setTournaments}
+            onPlay={playPairing}
+            onClose={() => setShowTournaments(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Daily Challenge */}
+      <AnimatePresence>
+        {showDaily && (
+          <DailyPanel
+            date={getDailyDate()}
+            name={dailyName}
+            played={dailyPlayed.includes(getDailyDate())}
+            inProgress={dailyDate === getDailyDate() && gameState.status !== 'game_over'}
+            onNameChange={setDailyName}
+            onPlay={startDaily}
+            onClose={() => setShowDaily(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Hot-seat Handoff */}
+      <AnimatePresence>
+        {needsHandoff && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+          >
+            <div
+              ref={handoffRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="handoff-title"
+              className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-sm w-full text-center"
+            >
+              <h2 id="handoff-title" className="text-3xl font-serif font-bold italic text-white mb-2">{t('handoff.title', { name: displayName(currentPlayer.name) })}</h2>
+              <p className="text-white/60 mb-8">{message}</p>
+              <button
+                onClick={() => setRevealedSeat(gameState.currentSeat)}
+                className="w-full py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 text-emerald-950 font-bold shadow-lg transition-all"
+              >
+                {t('handoff.reveal', { name: displayName(currentPlayer.name) })}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Suit Picker Modal */}
       <AnimatePresence>
-        {gameState.status === 'suit_selection' && (
+        {isPickingSuit && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -457,22 +1415,32 @@ export default function App() {
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
           >
             <motion.div 
+              ref={suitPickerRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="suit-picker-title"
               initial={{ scale: 0.9, y: 20 }}
               animate={{ scale: 1, y: 0 }}
               className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-sm w-full text-center"
             >
-              <h2 className="text-3xl font-serif font-bold italic text-white mb-2">Crazy 8!</h2>
-              <p className="text-white/60 mb-8">Choose the new suit to play</p>
+              <h2 id="suit-picker-title" className="text-3xl font-serif font-bold italic text-white mb-2">
+                {topCard.rank === 'Joker' ? t('suitPicker.jokerTitle') : t('suitPicker.title')}
+              </h2>
+              <p className="text-white/60 mb-8">{t('suitPicker.prompt')}</p>
               
               <div className="grid grid-cols-2 gap-4">
-                {SUITS.map((suit) => (
+                {SUITS.map((suit, i) => (
                   <button
                     key={suit}
                     onClick={() => handleSuitSelect(suit)}
-                    className="flex flex-col items-center gap-2 p-6 rounded-2xl bg-white/5 hover:bg-white/10 border border-white/10 transition-all group"
+                    aria-keyshortcuts={String(i + 1)}
+                    className="relative flex flex-col items-center gap-2 p-6 rounded-2xl bg-white/5 hover:bg-white/10 border border-white/10 transition-all group"
                   >
-                    <SuitIcon suit={suit} className={`w-12 h-12 ${SUIT_COLORS[suit]} group-hover:scale-110 transition-transform`} />
-                    <span className="text-xs font-bold uppercase tracking-widest text-white/80">{suit}</span>
+                    <kbd aria-hidden className="absolute top-2 left-3 text-[10px] font-mono text-white/40">{i + 1}</kbd>
+                    <span className={`p-3 rounded-full group-hover:scale-110 transition-transform ${getTheme().face}`}>
+                      <SuitIcon suit={suit} className={`w-12 h-12 ${getTheme().suitColors[suit]}`} />
+                    </span>
+                    <span className="text-xs font-bold uppercase tracking-widest text-white/80">{suitName(suit)}</span>
                   </button>
                 ))}
               </div>
@@ -484,47 +1452,21 @@ export default function App() {
       {/* Game Over Modal */}
       <AnimatePresence>
         {gameState.status === 'game_over' && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
-          >
-            <motion.div 
-              initial={{ scale: 0.8, y: 40 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-white p-10 rounded-[2.5rem] shadow-2xl max-w-md w-full text-center relative overflow-hidden"
-            >
-              {/* Decorative background */}
-              <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-yellow-400 via-orange-500 to-red-500" />
-              
-              <div className="mb-6 flex justify-center">
-                <div className="w-20 h-20 rounded-full bg-emerald-100 flex items-center justify-center">
-                  {gameState.winner === 'player' ? (
-                    <Trophy className="w-10 h-10 text-emerald-600" />
-                  ) : (
-                    <AlertCircle className="w-10 h-10 text-red-600" />
-                  )}
-                </div>
-              </div>
-
-              <h2 className="text-4xl font-serif font-bold italic text-slate-900 mb-2">
-                {gameState.winner === 'player' ? 'You Won!' : 'AI Won!'}
-              </h2>
-              <p className="text-slate-500 mb-8">
-                {gameState.winner === 'player' 
-                  ? 'Incredible strategy! You cleared all your cards.' 
-                  : 'Better luck next time! The AI was too fast.'}
-              </p>
+          <GameOverModal
+            state={gameState}
+            match={matchStanding}
+            onPlayAgain={isOnline ? online.start : tournamentGame ? () => setShowTournaments(true) : startGame}
+            onNextRound={nextRound}
+            onReplay={isOnline ? undefined : () => setShowReplay(true)}
+            playAgainLabel={tournamentGame ? t('tournament.back') : undefined}
+          />
+        )}
+      </AnimatePresence>
 
-              <button
-                onClick={initGame}
-                className="w-full py-4 rounded-2xl bg-emerald-600 hover:bg-emerald-700 text-white font-bold text-lg shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2"
-              >
-                <RotateCcw className="w-5 h-5" /> Play Again
-              </button>
-            </motion.div>
-          </motion.div>
+      {/* Replay Viewer */}
+      <AnimatePresence>
+        {showReplay && gameState.status === 'game_over' && (
+          <ReplayViewer state={gameState} onClose={() => setShowReplay(false)} />
         )}
       </AnimatePresence>
 
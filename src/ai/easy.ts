@@ -0,0 +1,10 @@
+import { AiStrategy } from '../types';
+import { SUITS } from '../constants';
+import { Rng } from '../random';
+import { getFallbackAction } from './helpers';
+
+// Easy: any legal action, picked at random
+export const createEasyStrategy = (rng: Rng = Math.random): AiStrategy => ({
+  chooseAction: (view) => view.legalActions[Math.floor(rng() * view.legalActions.length)] ?? getFallbackAction(view),
+  chooseSuit: () => SUITS[Math.floor(rng() * SUITS.length)],
+});
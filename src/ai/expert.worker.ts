@@ -0,0 +1,19 @@
+import { PlayerView } from '../types';
+import { search, SearchBudget, SearchResult } from './ismcts';
+
+export interface ExpertRequest {
+  id: number;
+  view: PlayerView;
+  budget: SearchBudget;
+}
+
+export interface ExpertResponse {
+  id: number;
+  result: SearchResult;
+}
+
+self.onmessage = (event: MessageEvent<ExpertRequest>) => {
+  const { id, view, budget } = event.data;
+  const response: ExpertResponse = { id, result: search(view, budget) };
+  self.postMessage(response);
+};
@@ -0,0 +1,40 @@
+import { PlayerView } from '../types';
+import { SearchBudget, SearchResult } from './ismcts';
+import type { ExpertRequest, ExpertResponse } from './expert.worker';
+
+// One long-lived worker; responses are matched to requests by id
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (result: SearchResult) => void; reject: (error: Error) => void }>();
+
+// A worker that failed to load or crashed fails every search waiting on it, and the
+// next search starts a fresh one
+const fail = (error: Error) => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./expert.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExpertResponse>) => {
+      const request = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      request?.resolve(event.data.result);
+    };
+    worker.onerror = (event) => fail(new Error(event.message || 'The Expert worker failed'));
+    worker.onmessageerror = () => fail(new Error('The Expert worker sent an unreadable message'));
+  }
+  return worker;
+};
+
+// The view is all the worker ever sees, so the Expert can't peek at hidden cards
+export const searchInWorker = (view: PlayerView, budget: SearchBudget): Promise<SearchResult> =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: ExpertRequest = { id, view, budget };
+    getWorker().postMessage(request);
+  });
@@ -0,0 +1,64 @@
+import { AiStrategy, Card, PlayCard, PlayerView, Suit } from '../types';
+import { SUITS, createDeck, getCardPoints, isWild } from '../constants';
+import { getDrawPenalty, isSkip } from '../rules';
+import { getPlays, getPlayedCards, getFallbackAction, countSuits, getNextSeat } from './helpers';
+
+// Cards still in the deck or in opponents' hands, from what has been seen
+const countUnseenSuits = (view: PlayerView): Record<Suit, number> => {
+  const seen = new Set([...view.hand, ...view.discardPile].map(c => c.id));
+  return countSuits(createDeck(view.rules.decks, view.rules.jokers).filter(c => !seen.has(c.id)));
+};
+
+// An opponent this close to going out is worth disrupting
+const isUnderPressure = (view: PlayerView): boolean =>
+  view.handCounts.some((count, seat) => seat !== view.seat && count <= 2);
+
+// Scores a single card or a set; the set's last card is the one left on top
+const scorePlay = (view: PlayerView, cards: Card[], unseen: Record<Suit, number>): number => {
+  const rest = view.hand.filter(c => !cards.includes(c));
+  if (rest.length === 0) return Infinity;
+
+  // A joker leaves no suit of its own; the one named after it is chosen separately
+  const topSuit = cards[cards.length - 1].suit;
+  const pressure = isUnderPressure(view);
+  const mine = countSuits(rest);
+  // Keep options open in the suit left active, and shed cards and points while it's cheap
+  let score = (topSuit ? mine[topSuit] * 3 : 0) + cards.reduce((sum, c) => sum + getCardPoints(c), 0) * 0.5 + (cards.length - 1) * 4;
+  // Leave a suit the opponents are unlikely to hold
+  if (pressure && topSuit) score -= unseen[topSuit] * 0.5;
+  if (cards.some(c => getDrawPenalty(c, view.rules) > 0 || isSkip(c, view.rules))) {
+    score += view.handCounts[getNextSeat(view)] <= 2 ? 20 : 5;
+  }
+  return score;
+};
+
+// Hard: counts every card it has seen, saves its wild cards and squeezes opponents who are close to going out
+export const createHardStrategy = (): AiStrategy => ({
+  chooseAction: (view) => {
+    const unseen = countUnseenSuits(view);
+    const plays = getPlays(view).map(action => ({ action, cards: getPlayedCards(view, action) }));
+    const regular = plays.filter(p => !isWild(p.cards[0]));
+    const best = (options: { action: PlayCard; cards: Card[] }[]) =>
+      [...options].sort((a, b) => scorePlay(view, b.cards, unseen) - scorePlay(view, a.cards, unseen))[0].action;
+
+    if (regular.length > 0) return best(regular);
+
+    if (plays.length > 0) {
+      // Only wild cards fit: hold them back while drawing is cheap and nobody is about to go out
+      const fallback = getFallbackAction(view);
+      const canAffordToDraw = fallback.type === 'draw_card' && view.pendingDraw === 0
+        && view.hand.length > 2 && !isUnderPressure(view);
+      // One at a time; the others stay wild for later
+      return canAffordToDraw ? fallback : best(plays.filter(p => p.cards.length === 1));
+    }
+
+    return getFallbackAction(view);
+  },
+  chooseSuit: (view) => {
+    const unseen = countUnseenSuits(view);
+    const mine = countSuits(view.hand);
+    const pressure = isUnderPressure(view);
+    const score = (suit: Suit) => mine[suit] * 3 - (pressure ? unseen[suit] * 0.5 : 0);
+    return [...SUITS].sort((a, b) => score(b) - score(a))[0];
+  },
+});
@@ -0,0 +1,45 @@
+import { Card, GameAction, PlayCard, PlayerView, Suit } from '../types';
+import { SUITS } from '../constants';
+
+// Cards that can lead a play; sets are only counted once, under their first card
+export const getPlayableCards = (view: PlayerView): Card[] =>
+  view.legalActions.flatMap(a => (a.type === 'play_card' && !a.extraCardIds ? view.hand.filter(c => c.id === a.cardId) : []));
+
+// Every legal play, single cards and sets alike
+export const getPlays = (view: PlayerView): PlayCard[] =>
+  view.legalActions.filter((a): a is PlayCard => a.type === 'play_card');
+
+// The cards of a play in the order they go down, so the last one ends on top
+export const getPlayedCards = (view: PlayerView, play: PlayCard): Card[] =>
+  [play.cardId, ...(play.extraCardIds ?? [])].map(id => view.hand.find(c => c.id === id)!);
+
+// Whichever of draw or pass the engine currently allows
+export const getFallbackAction = (view: PlayerView): GameAction =>
+  view.legalActions.find(a => a.type === 'draw_card' || a.type === 'pass') ?? { type: 'pass', seat: view.seat };
+
+export const playCard = (view: PlayerView, card: Card): GameAction => ({ type: 'play_card', seat: view.seat, cardId: card.id });
+
+// Leads with `card` and sheds every other card of its rank the rules allow,
+// finishing on the suit most of what's left is in
+export const playSet = (view: PlayerView, card: Card): GameAction => {
+  const left = countSuits(view.hand.filter(c => c.rank !== card.rank));
+  const plays = getPlays(view).filter(p => p.cardId === card.id);
+  const size = (p: PlayCard) => p.extraCardIds?.length ?? 0;
+  // Jokers have no suit; the one named afterwards matters instead
+  const topSuitCount = (p: PlayCard) => left[getPlayedCards(view, p).at(-1)!.suit!] ?? 0;
+  return [...plays].sort((a, b) => size(b) - size(a) || topSuitCount(b) - topSuitCount(a))[0] ?? playCard(view, card);
+};
+
+// Jokers belong to no suit and aren't counted
+export const countSuits = (cards: Card[]): Record<Suit, number> => {
+  const counts = Object.fromEntries(SUITS.map(s => [s, 0])) as Record<Suit, number>;
+  cards.forEach(c => {
+    if (c.suit) counts[c.suit]++;
+  });
+  return counts;
+};
+
+export const getNextSeat = (view: PlayerView): number => {
+  const count = view.handCounts.length;
+  return (((view.seat + view.direction) % count) + count) % count;
+};
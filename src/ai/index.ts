@@ -0,0 +1,39 @@
+import { AiDifficulty, AiStrategy, GameAction, GameState } from '../types';
+import { Rng } from '../random';
+import { createPlayerView } from '../view';
+import { createEasyStrategy } from './easy';
+import { createNormalStrategy } from './normal';
+import { createHardStrategy } from './hard';
+import { createExpertStrategy } from './ismcts';
+
+// Labels live in the message catalogs under `difficulty.<key>`
+export const AI_DIFFICULTIES: { key: AiDifficulty }[] = [
+  { key: 'easy' },
+  { key: 'normal' },
+  { key: 'hard' },
+  { key: 'expert' },
+];
+
+export const createStrategy = (difficulty: AiDifficulty = 'normal', rng: Rng = Math.random): AiStrategy => {
+  switch (difficulty) {
+    case 'easy': return createEasyStrategy(rng);
+    case 'normal': return createNormalStrategy();
+    case 'hard': return createHardStrategy();
+    case 'expert': return createExpertStrategy(undefined, rng);
+  }
+};
+
+// Asks `strategy` for the current seat's move, showing it only that seat's view
+export const chooseAiAction = (state: GameState, strategy: AiStrategy): GameAction => {
+  const view = createPlayerView(state, state.currentSeat);
+  if (state.status === 'suit_selection') {
+    return { type: 'choose_suit', seat: view.seat, suit: strategy.chooseSuit(view) };
+  }
+  return strategy.chooseAction(view);
+};
+
+// Whether the seat that just made `action` moves again: an 8 is followed by the suit
+// choice, and drawing until playable keeps going, in the same turn
+export const keepsTurn = (state: GameState, action: GameAction): boolean =>
+  state.status !== 'game_over' && state.currentSeat === action.seat
+  && (state.status === 'suit_selection' || action.type === 'draw_card');
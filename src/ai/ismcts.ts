@@ -0,0 +1,209 @@
+import { AiStrategy, Card, GameAction, GameState, PlayerView, Suit } from '../types';
+import { createDeck, shuffle, isWild } from '../constants';
+import { Rng } from '../random';
+import {
+  reduce,
+  getLegalActions,
+  getPlayableCards,
+  getDrawableCount,
+  getRejection,
+  getHand,
+  getStalemateWinner,
+} from '../engine';
+import { getLikelyVoids } from '../hints';
+import { countSuits } from './helpers';
+
+// Information-set Monte Carlo tree search (single observer). Each iteration deals the
+// unseen cards at random into opponents' hands and the deck, keeping the suits each has
+// drawn rather than follow out of its hand where it can, walks one shared tree
+// restricted to the moves legal in that deal, then plays the game out with a cheap policy.
+
+export interface SearchBudget {
+  iterations: number;
+  timeMs: number;
+}
+
+export interface SearchResult {
+  action: GameAction;
+  winProbability: number; // Visit-weighted win rate of the chosen move
+  iterations: number;
+}
+
+export const DEFAULT_SEARCH_BUDGET: SearchBudget = { iterations: 5000, timeMs: 1000 };
+
+const EXPLORATION = 0.7;
+const MAX_ROLLOUT_MOVES = 400;
+
+interface Node {
+  key: string;
+  action: GameAction | null;
+  seat: number; // Who made `action`; wins are counted from their side
+  parent: Node | null;
+  children: Node[];
+  visits: number;
+  wins: number;
+  availability: number;
+}
+
+const createNode = (action: GameAction | null, seat: number, parent: Node | null): Node => ({
+  key: action ? actionKey(action) : 'root',
+  action,
+  seat,
+  parent,
+  children: [],
+  visits: 0,
+  wins: 0,
+  availability: 1,
+});
+
+// Actions are compared without their seat so the same move matches across deals
+const actionKey = (action: GameAction): string => {
+  switch (action.type) {
+    case 'play_card': return `play:${[action.cardId, ...(action.extraCardIds ?? [])].join('+')}`;
+    case 'choose_suit': return `suit:${action.suit}`;
+    default: return action.type;
+  }
+};
+
+// One concrete game consistent with everything `view` can see. Opponents are dealt around
+// the suits they drew rather than follow (see getLikelyVoids), which under drawUntilPlayable
+// is proof; only when the unseen cards can't cover that does a hand get one of those suits.
+export const determinize = (view: PlayerView, rng: Rng): GameState => {
+  const known = new Set([...view.hand, ...view.discardPile].map(c => c.id));
+  const unknown = shuffle(createDeck(view.rules.decks, view.rules.jokers).filter(c => !known.has(c.id)), rng);
+  const voids = getLikelyVoids(view);
+  const dealt = new Set<string>();
+  const take = (count: number, allowed: (card: Card) => boolean): Card[] => {
+    const cards = unknown.filter(c => !dealt.has(c.id) && allowed(c)).slice(0, count);
+    cards.forEach(c => dealt.add(c.id));
+    return cards;
+  };
+  const seats = view.handCounts.map((count, seat) => {
+    if (seat === view.seat) return { name: `Seat ${seat}`, kind: 'ai' as const, hand: view.hand };
+    const hand = take(count, c => !c.suit || !voids[seat].has(c.suit));
+    hand.push(...take(count - hand.length, () => true));
+    return { name: `Seat ${seat}`, kind: 'ai' as const, hand };
+  });
+
+  return {
+    seed: `sim:${rng()}`,
+    deck: unknown.filter(c => !dealt.has(c.id)),
+    seats,
+    discardPile: view.discardPile,
+    currentSeat: view.seat,
+    dealer: view.dealer,
+    status: view.status,
+    winner: null,
+    endReason: null,
+    pendingSuitChange: view.status === 'suit_selection',
+    currentSuit: view.currentSuit,
+    rules: view.rules,
+    pendingDraw: view.pendingDraw,
+    direction: view.direction,
+    reshuffles: 0,
+    log: [], // Rollouts only look forward
+  };
+};
+
+// The Normal heuristic, straight off the state so rollouts stay cheap
+const rolloutAction = (state: GameState): GameAction => {
+  const seat = state.currentSeat;
+  if (state.status === 'suit_selection') {
+    const counts = countSuits(getHand(state, seat));
+    const suit = (Object.keys(counts) as Suit[]).sort((a, b) => counts[b] - counts[a])[0];
+    return { type: 'choose_suit', seat, suit };
+  }
+  const playable = getPlayableCards(state, seat);
+  if (playable.length > 0) {
+    const card = playable.find(c => !isWild(c)) ?? playable[0];
+    return { type: 'play_card', seat, cardId: card.id };
+  }
+  const draw: GameAction = { type: 'draw_card', seat };
+  return getDrawableCount(state) > 0 && getRejection(state, draw) === null ? draw : { type: 'pass', seat };
+};
+
+const selectChild = (candidates: Node[]): Node => {
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const child of candidates) {
+    const score = child.wins / child.visits + EXPLORATION * Math.sqrt(Math.log(child.availability) / child.visits);
+    if (score > bestScore) {
+      best = child;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const runIteration = (root: Node, view: PlayerView, rng: Rng) => {
+  let state = determinize(view, rng);
+  let node = root;
+
+  // Selection and expansion
+  while (state.status !== 'game_over') {
+    const seat = state.currentSeat;
+    const legal = getLegalActions(state, seat);
+    const untried = legal.filter(a => !node.children.some(c => c.key === actionKey(a)));
+
+    if (untried.length > 0) {
+      const action = untried[Math.floor(rng() * untried.length)];
+      const child = createNode(action, seat, node);
+      node.children.push(child);
+      node = child;
+      state = reduce(state, action);
+      break;
+    }
+
+    const legalKeys = new Set(legal.map(actionKey));
+    const candidates = node.children.filter(c => legalKeys.has(c.key));
+    candidates.forEach(c => c.availability++);
+    node = selectChild(candidates);
+    state = reduce(state, { ...node.action!, seat });
+  }
+
+  // Rollout
+  for (let moves = 0; state.status !== 'game_over' && moves < MAX_ROLLOUT_MOVES; moves++) {
+    state = reduce(state, rolloutAction(state));
+  }
+  const winner = state.status === 'game_over' ? state.winner : getStalemateWinner(state);
+
+  // Backpropagation
+  for (let n: Node | null = node; n; n = n.parent) {
+    n.visits++;
+    if (winner !== null && n.seat === winner) n.wins++;
+  }
+};
+
+export const search = (view: PlayerView, budget: SearchBudget, rng: Rng = Math.random): SearchResult => {
+  if (view.legalActions.length === 1) {
+    return { action: view.legalActions[0], winProbability: NaN, iterations: 0 };
+  }
+
+  const root = createNode(null, -1, null);
+  const deadline = Date.now() + budget.timeMs;
+  let iterations = 0;
+  while (iterations < budget.iterations && Date.now() < deadline) {
+    runIteration(root, view, rng);
+    iterations++;
+  }
+
+  if (root.children.length === 0) {
+    return { action: view.legalActions[0], winProbability: NaN, iterations };
+  }
+
+  const best = root.children.reduce((a, b) => (b.visits > a.visits ? b : a));
+  return {
+    action: { ...best.action!, seat: view.seat },
+    winProbability: best.wins / best.visits,
+    iterations,
+  };
+};
+
+// Synchronous Expert for headless use; the browser runs `search` in a worker instead
+export const createExpertStrategy = (budget: SearchBudget = DEFAULT_SEARCH_BUDGET, rng: Rng = Math.random): AiStrategy => ({
+  chooseAction: (view) => search(view, budget, rng).action,
+  chooseSuit: (view) => {
+    const { action } = search(view, budget, rng);
+    return action.type === 'choose_suit' ? action.suit : 'hearts';
+  },
+});
@@ -0,0 +1,20 @@
+import { AiStrategy } from '../types';
+import { SUITS, isWild } from '../constants';
+import { getPlayableCards, getFallbackAction, playSet, countSuits } from './helpers';
+
+// Normal: Prefer non-wild cards first, then 8s and jokers, laying down the whole rank when sets are allowed.
+// Picks its most frequent suit after an 8.
+export const createNormalStrategy = (): AiStrategy => ({
+  chooseAction: (view) => {
+    const playableCards = getPlayableCards(view);
+    if (playableCards.length > 0) {
+      const nonWild = playableCards.find(c => !isWild(c));
+      return playSet(view, nonWild || playableCards[0]);
+    }
+    return getFallbackAction(view);
+  },
+  chooseSuit: (view) => {
+    const suitCounts = countSuits(view.hand);
+    return [...SUITS].sort((a, b) => suitCounts[b] - suitCounts[a])[0];
+  },
+});
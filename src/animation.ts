@@ -0,0 +1,27 @@
+// How fast things move on the table. Module state set by the App, like the theme; the
+// operating system's reduced-motion setting still turns card movement off at any speed.
+
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+// Labels live in the message catalogs under `animationSpeed.<key>`. Scale multiplies durations.
+export const ANIMATION_SPEEDS: { key: AnimationSpeed; scale: number }[] = [
+  { key: 'off', scale: 0 },
+  { key: 'fast', scale: 0.5 },
+  { key: 'normal', scale: 1 },
+  { key: 'slow', scale: 2 },
+];
+
+export const DEFAULT_ANIMATION_SPEED: AnimationSpeed = 'normal';
+
+let scale = 1;
+
+export const isAnimationSpeed = (value: unknown): value is AnimationSpeed => ANIMATION_SPEEDS.some(s => s.key === value);
+
+export const setAnimationSpeed = (speed: AnimationSpeed) => {
+  scale = ANIMATION_SPEEDS.find(s => s.key === speed)?.scale ?? 1;
+};
+
+export const getAnimationScale = (): number => scale;
+
+// Seconds at the chosen speed
+export const scaleDuration = (seconds: number): number => seconds * scale;
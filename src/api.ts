@@ -0,0 +1,66 @@
+import { CoachAdvice, CoachSnapshot, DailyEntry, DailySummary, FinishedGame, GameRecord, GameReview, GameState, PlayerStats } from './types';
+import { getHandPoints } from './constants';
+import { scoreRound } from './match';
+import { getLogActions } from './history';
+import { Locale } from './i18n';
+
+// Client for the local API server (`npm run server`): stats, the Daily Challenge and the coach. The game works without it,
+// so failures are reported to the caller rather than thrown into the UI.
+
+export const createFinishedGame = (state: GameState, durationMs: number): FinishedGame => {
+  const { scores } = scoreRound(state);
+  const actions = getLogActions(state.log);
+  return {
+    seed: state.seed,
+    rules: state.rules,
+    endReason: state.endReason ?? 'stalemate',
+    winner: state.winner,
+    players: state.seats.map((seat, i) => ({
+      name: seat.name,
+      kind: seat.kind,
+      difficulty: seat.kind === 'ai' ? seat.difficulty ?? 'normal' : undefined,
+      cardsLeft: seat.hand.length,
+      pointsLeft: getHandPoints(seat.hand),
+      score: scores[i],
+    })),
+    suitChoices: actions.flatMap(a => (a.type === 'choose_suit' ? [{ seat: a.seat, suit: a.suit }] : [])),
+    moveCount: actions.length,
+    durationMs: Math.round(durationMs),
+  };
+};
+
+const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with ${response.status}`);
+  }
+  return response.json();
+};
+
+export const saveGame = (game: FinishedGame): Promise<{ id: number }> =>
+  request('/games', { method: 'POST', body: JSON.stringify(game) });
+
+export const fetchPlayerStats = (): Promise<PlayerStats[]> => request('/stats');
+
+// The server replays the record itself, so only a legal, finished challenge is ranked
+export const submitDailyGame = (record: GameRecord, durationMs: number): Promise<DailyEntry> =>
+  request('/daily', { method: 'POST', body: JSON.stringify({ record, durationMs: Math.round(durationMs) }) });
+
+export const fetchDailyLeaderboard = (date: string): Promise<DailyEntry[]> => request(`/daily/${date}`);
+
+export const fetchDailyHistory = (name: string): Promise<DailySummary[]> =>
+  request(`/daily?name=${encodeURIComponent(name)}`);
+
+// The coach goes through the server so the Gemini key never reaches the browser
+export const fetchCoachStatus = (): Promise<{ available: boolean }> => request('/coach/status');
+
+// `locale` is the language the coach should answer in
+export const requestCoachAdvice = (snapshot: CoachSnapshot, locale: Locale): Promise<CoachAdvice> =>
+  request('/coach/suggest', { method: 'POST', body: JSON.stringify({ ...snapshot, locale }) });
+
+export const requestGameReview = (record: GameRecord, seat: number, locale: Locale): Promise<GameReview> =>
+  request('/coach/review', { method: 'POST', body: JSON.stringify({ record, seat, locale }) });
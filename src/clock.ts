@@ -0,0 +1,38 @@
+import { GameAction, GameState } from './types';
+import { getLegalActions } from './engine';
+import { chooseAiAction, createStrategy } from './ai';
+
+// Time pressure for local games. A turn timer limits each turn; the speed clock is a
+// chess clock holding each human's time for the whole game. Neither applies online.
+
+export interface TimeControl {
+  turnSeconds: number | null; // Null for no turn limit
+  clockSeconds: number | null; // Null for no speed clock
+  aiDelayMs: number; // How long the non-Expert AIs pause before moving
+}
+
+export const TURN_SECONDS = [null, 10, 20, 30];
+export const CLOCK_SECONDS = [null, 60, 180, 300];
+
+// Labels live in the message catalogs under `aiDelay.<key>`
+export const AI_DELAYS: { key: 'instant' | 'fast' | 'normal' | 'slow'; ms: number }[] = [
+  { key: 'instant', ms: 0 },
+  { key: 'fast', ms: 500 },
+  { key: 'normal', ms: 1500 },
+  { key: 'slow', ms: 3000 },
+];
+
+export const DEFAULT_TIME_CONTROL: TimeControl = { turnSeconds: null, clockSeconds: null, aiDelayMs: 1500 };
+
+// Once a player's clock runs out, each of their moves is made for them after this pause
+export const FLAGGED_MOVE_MS = 800;
+
+// Running out of time costs a card: draw when the rules allow it, otherwise make the Normal AI's move
+export const getTimeoutAction = (state: GameState): GameAction =>
+  getLegalActions(state, state.currentSeat).find(a => a.type === 'draw_card') ?? chooseAiAction(state, createStrategy('normal'));
+
+// 95000 -> "1:35"; rounds up so a clock only shows 0:00 once it has run out
+export const formatClock = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,42 @@
+import { CoachSnapshot, GameAction, PlayerView } from './types';
+import { SUIT_SYMBOLS } from './constants';
+import { cardLabel } from './history';
+import { t, suitName } from './i18n';
+
+// Shared between the Coach panel and the server proxy. Moves travel as short ids
+// ("play:7-hearts", "draw") so the model can only answer with something we offered.
+// A set lists its cards in the order they go down ("play:7-hearts+7-clubs").
+
+export const createCoachSnapshot = (view: PlayerView): CoachSnapshot => ({
+  seat: view.seat,
+  hand: view.hand,
+  topCard: view.topCard,
+  currentSuit: view.currentSuit,
+  handCounts: view.handCounts,
+  pendingDraw: view.pendingDraw,
+  direction: view.direction,
+  status: view.status,
+  rules: view.rules,
+  legalActions: view.legalActions,
+});
+
+export const getMoveId = (action: GameAction): string => {
+  switch (action.type) {
+    case 'play_card': return `play:${[action.cardId, ...(action.extraCardIds ?? [])].join('+')}`;
+    case 'choose_suit': return `suit:${action.suit}`;
+    case 'draw_card': return 'draw';
+    case 'pass': return 'pass';
+  }
+};
+
+export const describeMove = (action: GameAction, snapshot: CoachSnapshot): string => {
+  switch (action.type) {
+    case 'play_card': {
+      const cards = [action.cardId, ...(action.extraCardIds ?? [])].map(id => snapshot.hand.find(c => c.id === id));
+      return cards.every(Boolean) ? t('coach.play', { card: cards.map(cardLabel).join(' ') }) : t('coach.playAny');
+    }
+    case 'choose_suit': return t('coach.callSuit', { suit: `${SUIT_SYMBOLS[action.suit]} ${suitName(action.suit)}` });
+    case 'draw_card': return snapshot.pendingDraw > 0 ? t('coach.drawPenalty', { count: snapshot.pendingDraw }) : t('coach.draw');
+    case 'pass': return t('coach.pass');
+  }
+};
@@ -0,0 +1,109 @@
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import { PlayerView } from '../types';
+import { SUITS, RANKS, SUIT_SYMBOLS } from '../constants';
+import { getTheme } from '../themes';
+import { countCards } from '../tracker';
+import { t, displayName, suitName } from '../i18n';
+
+// Optional card-counting overlay for the player whose hand is showing. Counts only what
+// that player has seen, so it's no help to anyone looking over their shoulder.
+export const CardTracker = ({
+  view,
+  names,
+  onClose,
+}: {
+  view: PlayerView | null; // Null while no hand is showing, e.g. between hot-seat turns
+  names: string[]; // Seat names, for the opponents' likely voids
+  onClose: () => void;
+}) => {
+  const count = view && countCards(view);
+  const theme = getTheme();
+  // Suit colours are made for card faces, so symbols sit on a small patch of one
+  const badge = `inline-flex items-center justify-center w-6 h-6 rounded-full ${theme.face}`;
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      aria-label={t('tracker.title')}
+      className="fixed right-4 bottom-28 z-30 w-80 max-h-[60vh] overflow-y-auto bg-emerald-950/95 border border-white/20 p-5 rounded-3xl shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-serif font-bold italic text-white">{t('tracker.title')}</h2>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-5 h-5 text-white/60" />
+        </button>
+      </div>
+
+      {!view || !count ? (
+        <p className="text-white/60 text-sm">{t('tracker.hidden')}</p>
+      ) : (
+        <div className="flex flex-col gap-4 text-sm text-white/80">
+          <p className="text-white/50 text-xs">{t('tracker.unseen', { count: count.unseen })}</p>
+
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-white/40">
+                <th />
+                {RANKS.map(rank => <th key={rank} className="font-normal">{rank}</th>)}
+                <th className="font-normal">Σ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SUITS.map(suit => (
+                <tr key={suit}>
+                  <th aria-label={suitName(suit)}>
+                    <span className={`${badge} text-sm ${theme.suitColors[suit]}`}>{SUIT_SYMBOLS[suit]}</span>
+                  </th>
+                  {RANKS.map(rank => (
+                    <td key={rank} className={`text-center ${count.grid[suit][rank] === 0 ? 'text-white/20' : ''}`}>
+                      {count.grid[suit][rank]}
+                    </td>
+                  ))}
+                  <td className="text-center font-bold text-yellow-300">{count.suits[suit]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {view.rules.jokers && (
+            <p className="text-xs">
+              <span className={`${badge} ${theme.jokerColor}`}>🃏</span> {t('tracker.jokers', { count: count.jokers })}
+            </p>
+          )}
+
+          <section>
+            <h3 className="text-[10px] font-mono uppercase tracking-widest text-white/40 mb-1">{t('tracker.voids')}</h3>
+            <ul className="flex flex-col gap-1">
+              {count.voids.map((voids, seat) => seat === view.seat ? null : (
+                <li key={seat} className="flex justify-between gap-2">
+                  <span>{displayName(names[seat])}</span>
+                  <span>
+                    {voids.size === 0
+                      ? <span className="text-white/40">{t('tracker.noVoids')}</span>
+                      : SUITS.filter(s => voids.has(s)).map(s => (
+                        <span key={s} className={`${badge} ml-1 text-sm ${theme.suitColors[s]}`} aria-label={suitName(s)}>{SUIT_SYMBOLS[s]}</span>
+                      ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] font-mono uppercase tracking-widest text-white/40 mb-1">{t('tracker.drawOdds')}</h3>
+            {count.drawOdds === null ? (
+              <p className="text-white/40">{t('tracker.nothingToDraw')}</p>
+            ) : (
+              <>
+                <p className="text-2xl font-mono font-bold text-yellow-300">{Math.round(count.drawOdds * 100)}%</p>
+                <p className="text-white/40 text-xs">{count.drawFromDiscards ? t('tracker.fromDiscards') : t('tracker.fromDeck')}</p>
+              </>
+            )}
+          </section>
+        </div>
+      )}
+    </motion.aside>
+  );
+};
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Lightbulb, Sparkles } from 'lucide-react';
+import { CoachAdvice, CoachSnapshot, GameReview, GameState } from '../types';
+import { createPlayerView } from '../view';
+import { createCoachSnapshot, describeMove } from '../coach';
+import { createGameRecord } from '../gameRecord';
+import { fetchCoachStatus, requestCoachAdvice, requestGameReview } from '../api';
+import { t, getLocale } from '../i18n';
+
+// Optional Gemini coach: a suggested move on your turn and a review once the game ends.
+// Everything goes through the local server, which may not have a key configured.
+// Sits above the suit picker and game-over modals, where its advice matters most.
+export const CoachPanel = ({
+  state,
+  adviseSeat,
+  reviewSeat,
+  onClose,
+}: {
+  state: GameState;
+  adviseSeat: number | null; // The seat whose turn it is, if it's ours to see
+  reviewSeat: number | null; // Whose game to review; null when it can't be rebuilt
+  onClose: () => void;
+}) => {
+  const [available, setAvailable] = useState<boolean | null>(null);
+  // The snapshot is kept so the suggested move can be named in the current language
+  const [advice, setAdvice] = useState<{ snapshot: CoachSnapshot; advice: CoachAdvice } | null>(null);
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCoachStatus()
+      .then(status => setAvailable(status.available))
+      .catch(() => setAvailable(false));
+  }, []);
+
+  // Advice is only good for the position it was asked about
+  useEffect(() => {
+    setAdvice(null);
+    setError(null);
+  }, [state.log.length, state.status]);
+
+  useEffect(() => {
+    setReview(null);
+  }, [state.seed]);
+
+  const ask = (request: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    request()
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  };
+
+  const askAdvice = () => ask(async () => {
+    const snapshot = createCoachSnapshot(createPlayerView(state, adviseSeat!));
+    setAdvice({ snapshot, advice: await requestCoachAdvice(snapshot, getLocale()) });
+  });
+
+  const askReview = () => ask(async () => {
+    setReview(await requestGameReview(createGameRecord(state), reviewSeat!, getLocale()));
+  });
+
+  const isOver = state.status === 'game_over';
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed left-4 bottom-28 z-[55] w-80 max-h-[60vh] overflow-y-auto bg-emerald-950/95 border border-white/20 p-5 rounded-3xl shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-serif font-bold italic text-white">{t('coach.title')}</h2>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-5 h-5 text-white/60" />
+        </button>
+      </div>
+
+      {available === null && <p className="text-white/60 text-sm">{t('coach.checking')}</p>}
+      {available === false && (
+        <p className="text-white/60 text-sm">{t('coach.unavailable')}</p>
+      )}
+
+      {available && (
+        <div className="flex flex-col gap-3">
+          {!isOver && (
+            <button
+              onClick={askAdvice}
+              disabled={adviseSeat === null || loading}
+              className="flex items-center justify-center gap-2 py-2 rounded-xl bg-yellow-400 hover:bg-yellow-300 disabled:opacity-30 text-emerald-950 text-sm font-bold transition-all"
+            >
+              <Lightbulb className="w-4 h-4" /> {adviseSeat === null ? t('coach.waitForTurn') : t('coach.suggest')}
+            </button>
+          )}
+          {isOver && reviewSeat !== null && (
+            <button
+              onClick={askReview}
+              disabled={loading}
+              className="flex items-center justify-center gap-2 py-2 rounded-xl bg-yellow-400 hover:bg-yellow-300 disabled:opacity-30 text-emerald-950 text-sm font-bold transition-all"
+            >
+              <Sparkles className="w-4 h-4" /> {t('coach.review')}
+            </button>
+          )}
+
+          {loading && <p className="text-white/60 text-sm">{t('coach.thinking')}</p>}
+          {error && <p className="text-red-300 text-sm">{error}</p>}
+
+          {advice && !isOver && (
+            <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+              <div className="text-sm font-bold text-yellow-300 mb-1">
+                {advice.advice.action ? describeMove(advice.advice.action, advice.snapshot) : t('coach.noPick')}
+              </div>
+              <p className="text-xs text-white/70">{advice.advice.reasoning}</p>
+            </div>
+          )}
+
+          {review && isOver && (
+            <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-xs text-white/80 mb-2">{review.summary}</p>
+              {review.mistakes.length > 0 && (
+                <ul className="list-disc list-inside flex flex-col gap-1">
+                  {review.mistakes.map((mistake, i) => (
+                    <li key={i} className="text-xs text-white/60">{mistake}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.aside>
+  );
+};
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, CalendarDays, Play } from 'lucide-react';
+import { DailyEntry, DailySummary } from '../types';
+import { MAX_NAME_LENGTH } from '../daily';
+import { fetchDailyHistory, fetchDailyLeaderboard } from '../api';
+import { t } from '../i18n';
+
+const resultLabel = (entry: DailyEntry) => t(entry.won ? 'daily.won' : 'daily.lost');
+
+// Today's deal, its leaderboard and how past challenges went. Starting is refused once
+// this device has dealt today's challenge, even if that game was abandoned.
+export const DailyPanel = ({
+  date,
+  name,
+  played,
+  inProgress,
+  onNameChange,
+  onPlay,
+  onClose,
+}: {
+  date: string;
+  name: string;
+  played: boolean; // Today's challenge has already been dealt here
+  inProgress: boolean; // ...and is the game on the table
+  onNameChange: (name: string) => void;
+  onPlay: () => void;
+  onClose: () => void;
+}) => {
+  const [leaderboard, setLeaderboard] = useState<DailyEntry[] | null>(null);
+  const [history, setHistory] = useState<DailySummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const trimmedName = name.trim();
+
+  useEffect(() => {
+    fetchDailyLeaderboard(date)
+      .then(setLeaderboard)
+      .catch(() => setError(t('daily.offline')));
+  }, [date]);
+
+  // Refetched as the name is typed so each day shows that player's own result
+  useEffect(() => {
+    fetchDailyHistory(trimmedName)
+      .then(days => setHistory(days.filter(d => d.date !== date)))
+      .catch(() => setError(t('daily.offline')));
+  }, [date, trimmedName]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-3xl font-serif font-bold italic text-white">{t('daily.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+        <p className="text-white/60 mb-6 text-sm">{t('daily.intro')}</p>
+
+        <div className="flex flex-col gap-6">
+          <section className="flex flex-col gap-3">
+            <h3 className="flex items-center gap-2 text-xs font-mono uppercase tracking-widest text-white/60">
+              <CalendarDays className="w-4 h-4" /> {t('daily.today', { date })}
+            </h3>
+            <label className="flex flex-col gap-1 p-3 rounded-xl bg-white/5 border border-white/10">
+              <span className="text-xs text-white/50">{t('daily.name')}</span>
+              <input
+                value={name}
+                maxLength={MAX_NAME_LENGTH}
+                disabled={played}
+                onChange={(e) => onNameChange(e.target.value)}
+                className="bg-transparent text-sm font-bold text-white outline-none disabled:text-white/60"
+              />
+            </label>
+            {played && <p className="text-white/60 text-sm">{t('daily.played')}</p>}
+            {inProgress ? (
+              <button
+                onClick={onClose}
+                className="flex items-center justify-center gap-2 bg-yellow-400 hover:bg-yellow-300 text-emerald-950 px-6 py-3 rounded-xl font-bold transition-all"
+              >
+                <Play className="w-4 h-4" /> {t('daily.resume')}
+              </button>
+            ) : (
+              <button
+                onClick={onPlay}
+                disabled={played || !trimmedName}
+                className="flex items-center justify-center gap-2 bg-yellow-400 hover:bg-yellow-300 text-emerald-950 px-6 py-3 rounded-xl font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Play className="w-4 h-4" /> {t('daily.play')}
+              </button>
+            )}
+          </section>
+
+          {error && <p className="text-white/60 text-sm">{error}</p>}
+
+          {!error && (
+            <section>
+              <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('daily.leaderboard')}</h3>
+              {!leaderboard && <p className="text-white/60 text-sm">{t('stats.loading')}</p>}
+              {leaderboard && leaderboard.length === 0 && <p className="text-white/60 text-sm">{t('daily.empty')}</p>}
+              {leaderboard && leaderboard.length > 0 && (
+                <table className="w-full text-sm text-white/80">
+                  <thead>
+                    <tr className="text-[10px] font-mono uppercase tracking-widest text-white/40">
+                      <th className="text-left font-normal pb-2">#</th>
+                      <th className="text-left font-normal pb-2">{t('daily.player')}</th>
+                      <th className="text-right font-normal pb-2">{t('daily.result')}</th>
+                      <th className="text-right font-normal pb-2">{t('daily.moves')}</th>
+                      <th className="text-right font-normal pb-2">{t('daily.opponentCards')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {leaderboard.map((entry) => (
+                      <tr
+                        key={entry.name}
+                        className={`border-t border-white/10 ${entry.name === trimmedName ? 'text-yellow-300' : ''}`}
+                      >
+                        <td className="py-2 font-mono">{entry.rank}</td>
+                        <td className="py-2">{entry.name}</td>
+                        <td className="text-right">{resultLabel(entry)}</td>
+                        <td className="text-right font-mono">{entry.moves}</td>
+                        <td className="text-right font-mono">{entry.opponentCardsLeft}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          )}
+
+          {!error && history && (
+            <section>
+              <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('daily.history')}</h3>
+              {history.length === 0 && <p className="text-white/60 text-sm">{t('daily.noHistory')}</p>}
+              <ul className="flex flex-col gap-1 text-sm text-white/80">
+                {history.map((day) => (
+                  <li key={day.date} className="flex items-center justify-between gap-4 border-t border-white/10 py-2">
+                    <span className="font-mono">{day.date}</span>
+                    <span className="text-white/50 text-xs">{t('daily.summary', { players: day.players, winners: day.winners })}</span>
+                    <span className={`ml-auto ${day.entry ? 'text-yellow-300' : 'text-white/40'}`}>
+                      {day.entry
+                        ? t('daily.entry', { rank: day.entry.rank, result: resultLabel(day.entry), moves: day.entry.moves })
+                        : t('daily.notPlayed')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,124 @@
+import { motion } from 'motion/react';
+import { Trophy, AlertCircle, RotateCcw, ChevronRight, Film } from 'lucide-react';
+import { GameState, MatchState } from '../types';
+import { scoreRound, getMatchWinner } from '../match';
+import { t, displayName } from '../i18n';
+
+export const GameOverModal = ({
+  state,
+  match,
+  onPlayAgain,
+  onNextRound,
+  onReplay,
+  playAgainLabel,
+}: {
+  state: GameState;
+  match: MatchState | null; // Already including this round
+  onPlayAgain: () => void;
+  onNextRound: () => void;
+  onReplay?: () => void; // Omitted when the game can't be rebuilt, e.g. online
+  playAgainLabel?: string; // In place of the usual play again / new match
+}) => {
+  const winner = state.winner !== null ? state.seats[state.winner] : null;
+  const round = scoreRound(state);
+  const matchWinnerSeat = match ? getMatchWinner(match) : null;
+  const matchWinner = matchWinnerSeat !== null ? state.seats[matchWinnerSeat] : null;
+  const champion = match ? matchWinner : winner;
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+    >
+      <motion.div 
+        initial={{ scale: 0.8, y: 40 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white p-10 rounded-[2.5rem] shadow-2xl max-w-md w-full text-center relative overflow-hidden"
+      >
+        {/* Decorative background */}
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-yellow-400 via-orange-500 to-red-500" />
+        
+        <div className="mb-6 flex justify-center">
+          <div className="w-20 h-20 rounded-full bg-emerald-100 flex items-center justify-center">
+            {(match && !matchWinner ? winner : champion)?.kind === 'human' ? (
+              <Trophy className="w-10 h-10 text-emerald-600" />
+            ) : (
+              <AlertCircle className="w-10 h-10 text-red-600" />
+            )}
+          </div>
+        </div>
+
+        {match && (
+          <p className="text-xs font-mono uppercase tracking-widest text-slate-400 mb-2">
+            {t('match.round', { round: match.rounds.length, target: match.target })}
+          </p>
+        )}
+
+        <h2 className="text-4xl font-serif font-bold italic text-slate-900 mb-2">
+          {matchWinner
+            ? matchWinner.name === 'You' ? t('gameOver.matchWinnerYou') : t('gameOver.matchWinner', { name: displayName(matchWinner.name) })
+            : state.endReason === 'stalemate' ? t('gameOver.stalemate') : t('gameOver.won', { name: displayName(winner!.name) })}
+        </h2>
+        <p className="text-slate-500 mb-8">
+          {state.endReason === 'stalemate'
+            ? winner
+              ? winner.name === 'You' ? t('gameOver.stalemateYouWin') : t('gameOver.stalemateWinner', { name: displayName(winner.name) })
+              : t('gameOver.stalemateDraw')
+            : winner?.kind === 'human' 
+              ? winner.name === 'You' ? t('gameOver.youWentOut') : t('gameOver.humanWentOut', { name: displayName(winner.name) })
+              : t('gameOver.aiWentOut')}
+        </p>
+
+        {(match || state.endReason === 'stalemate') && (
+          <table className="w-full mb-8 text-sm text-slate-600">
+            <thead>
+              <tr className="text-[10px] font-mono uppercase tracking-widest text-slate-400">
+                <th className="text-left font-normal px-2 pb-1">{t('gameOver.player')}</th>
+                <th className="text-right font-normal px-2 pb-1">{t('gameOver.left')}</th>
+                <th className="text-right font-normal px-2 pb-1">{t('gameOver.round')}</th>
+                {match && <th className="text-right font-normal px-2 pb-1">{t('gameOver.total')}</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {state.seats.map((seat, i) => (
+                <tr key={i} className={i === (matchWinnerSeat ?? state.winner) ? 'bg-emerald-50 font-bold' : ''}>
+                  <td className="text-left px-2 py-1 rounded-l-lg">{displayName(seat.name)} ({seat.hand.length})</td>
+                  <td className="text-right px-2 py-1 font-mono">{round.handPoints[i]}</td>
+                  <td className="text-right px-2 py-1 font-mono">{round.scores[i] > 0 ? `+${round.scores[i]}` : '–'}</td>
+                  {match && <td className="text-right px-2 py-1 font-mono rounded-r-lg">{match.totals[i]}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {match && !matchWinner ? (
+          <button
+            onClick={onNextRound}
+            className="w-full py-4 rounded-2xl bg-emerald-600 hover:bg-emerald-700 text-white font-bold text-lg shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2"
+          >
+            {t('gameOver.nextRound')} <ChevronRight className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={onPlayAgain}
+            className="w-full py-4 rounded-2xl bg-emerald-600 hover:bg-emerald-700 text-white font-bold text-lg shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2"
+          >
+            <RotateCcw className="w-5 h-5" /> {playAgainLabel ?? (match ? t('gameOver.newMatch') : t('gameOver.playAgain'))}
+          </button>
+        )}
+
+        {onReplay && (
+          <button
+            onClick={onReplay}
+            className="w-full mt-3 py-3 rounded-2xl bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold transition-all flex items-center justify-center gap-2"
+          >
+            <Film className="w-4 h-4" /> {t('gameOver.replay')}
+          </button>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import { GameState } from '../types';
+import { describeLogEntry } from '../history';
+import { t } from '../i18n';
+
+// Scrollable move log beside the table, kept scrolled to the latest move
+export const HistoryPanel = ({
+  state,
+  revealSeat,
+  onClose,
+}: {
+  state: GameState;
+  revealSeat: number | null;
+  onClose: () => void;
+}) => {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [state.log.length]);
+
+  return (
+    <motion.aside
+      initial={{ x: 320 }}
+      animate={{ x: 0 }}
+      exit={{ x: 320 }}
+      className="fixed top-0 right-0 bottom-0 z-30 w-72 bg-emerald-950/95 border-l border-white/20 shadow-2xl flex flex-col"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <h2 className="text-xl font-serif font-bold italic text-white">{t('history.title')}</h2>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-5 h-5 text-white/60" />
+        </button>
+      </div>
+      <ol ref={listRef} className="flex-1 overflow-y-auto p-4 flex flex-col gap-1">
+        {state.log.map((entry, i) => (
+          <li
+            key={i}
+            className={`text-xs px-2 py-1 rounded-lg ${entry.type === 'deal' || entry.type === 'reshuffle' ? 'text-white/40 italic' : 'text-white/80 bg-white/5'}`}
+          >
+            <span className="font-mono text-white/30 mr-2">{i}</span>
+            {describeLogEntry(entry, state.seats, revealSeat)}
+          </li>
+        ))}
+      </ol>
+    </motion.aside>
+  );
+};
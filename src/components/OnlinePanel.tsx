@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, User, Cpu, Plus, Minus, Crown, LogOut } from 'lucide-react';
+import { RuleSet } from '../types';
+import { MIN_SEATS, MAX_SEATS } from '../engine';
+import { describeRules } from '../rules';
+import { OnlineGame } from '../online/useOnlineGame';
+import { t, displayName } from '../i18n';
+
+// Create or join an online table. New tables use the house rules from Game Setup;
+// seats still open when the host starts are filled by Normal AI.
+export const OnlinePanel = ({
+  online,
+  rules,
+  onClose,
+}: {
+  online: OnlineGame;
+  rules: RuleSet;
+  onClose: () => void;
+}) => {
+  const [name, setName] = useState('');
+  const [seatCount, setSeatCount] = useState(MIN_SEATS);
+  const [code, setCode] = useState('');
+  const { lobby } = online;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-md w-full"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-3xl font-serif font-bold italic text-white">{t('online.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+        <p className="text-white/60 mb-6 text-sm">
+          {online.status === 'connecting' ? t('online.connecting') : lobby ? t('online.share') : t('online.needsServer')}
+        </p>
+
+        {online.error && <p className="text-red-300 text-sm mb-4">{online.error}</p>}
+
+        {!lobby ? (
+          <div className="flex flex-col gap-6">
+            <label className="flex flex-col gap-1 p-3 rounded-xl bg-white/5 border border-white/10">
+              <span className="text-xs text-white/50">{t('online.name')}</span>
+              <input
+                value={name}
+                maxLength={20}
+                onChange={(e) => setName(e.target.value)}
+                className="bg-transparent text-sm font-bold text-white outline-none"
+              />
+            </label>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-mono uppercase tracking-widest text-white/60">{t('online.newTable', { count: seatCount })}</h3>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setSeatCount(seatCount - 1)}
+                    disabled={seatCount <= MIN_SEATS}
+                    className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setSeatCount(seatCount + 1)}
+                    disabled={seatCount >= MAX_SEATS}
+                    className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <p className="text-white/40 mb-2 text-xs">{describeRules(rules)}</p>
+              <button
+                onClick={() => online.create(name, seatCount, rules)}
+                className="w-full py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 text-emerald-950 font-bold shadow-lg transition-all"
+              >
+                {t('online.create')}
+              </button>
+            </section>
+
+            <section>
+              <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('online.joinTitle')}</h3>
+              <div className="flex gap-2">
+                <input
+                  value={code}
+                  placeholder={t('online.code')}
+                  maxLength={5}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  className="flex-1 px-3 rounded-xl bg-white/5 border border-white/10 text-sm font-mono font-bold tracking-widest text-white outline-none"
+                />
+                <button
+                  onClick={() => online.join(code, name)}
+                  disabled={code.length === 0}
+                  className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-30 text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+                >
+                  {t('online.join')}
+                </button>
+              </div>
+            </section>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6">
+            <div className="text-center">
+              <div className="text-xs font-mono uppercase tracking-widest text-white/40">{t('online.tableCode')}</div>
+              <div className="text-4xl font-mono font-bold tracking-[0.3em] text-yellow-300 select-all">{lobby.code}</div>
+              <p className="text-white/40 text-xs mt-1">{describeRules(lobby.rules)}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {lobby.seats.map((seat, i) => (
+                <div key={i} className="flex items-center gap-2 p-3 rounded-xl bg-white/5 border border-white/10">
+                  {seat.kind === 'ai' ? <Cpu className="w-4 h-4 text-white/60" /> : <User className="w-4 h-4 text-emerald-300" />}
+                  <span className={`text-sm font-bold ${seat.name ? 'text-white' : 'text-white/30'}`}>
+                    {seat.name ? displayName(seat.name) : t('online.open')}{i === online.seat ? t('online.you') : ''}
+                  </span>
+                  {i === lobby.host && <Crown className="w-3 h-3 text-yellow-300" aria-label={t('online.host')} />}
+                  {seat.name && !seat.connected && <span className="text-[10px] font-mono uppercase text-white/40">{t('table.away')}</span>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={online.leave}
+                className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-white/10 hover:bg-white/20 text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+              >
+                <LogOut className="w-4 h-4" /> {t('online.leave')}
+              </button>
+              {online.isHost && (!online.state || online.state.status === 'game_over') && (
+                <button
+                  onClick={online.start}
+                  className="flex-1 py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 text-emerald-950 font-bold shadow-lg transition-all"
+                >
+                  {online.state ? t('online.dealAgain') : t('online.start')}
+                </button>
+              )}
+            </div>
+            {!online.isHost && !online.state && <p className="text-white/40 text-xs text-center">{t('online.waiting')}</p>}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
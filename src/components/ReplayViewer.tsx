@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Play, Pause } from 'lucide-react';
+import { Card, GameState } from '../types';
+import { SUIT_SYMBOLS } from '../constants';
+import { getCardColor, getTheme } from '../themes';
+import { getTopCard } from '../engine';
+import { cardLabel, describeLogEntry, getReplayFrames } from '../history';
+import { t, displayName } from '../i18n';
+
+const STEP_MS = 900;
+
+const MiniCard = ({ card }: { card: Card; key?: React.Key }) => (
+  <span className={`inline-flex items-center justify-center w-9 h-12 rounded-md border text-xs font-bold shadow-sm ${getTheme().face} ${getTheme().faceBorder} ${getCardColor(card)}`}>
+    {cardLabel(card)}
+  </span>
+);
+
+// Steps through a finished game rebuilt from its seed and move log, every hand face up
+export const ReplayViewer = ({ state, onClose }: { state: GameState; onClose: () => void }) => {
+  const frames = useMemo(() => getReplayFrames(state), [state]);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const last = frames.length - 1;
+  const frame = frames[step];
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, last]);
+
+  // Everything logged by this step's action, which may include a reshuffle
+  const entries = frame.log.slice(step === 0 ? 0 : frames[step - 1].log.length);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-3xl w-full"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-3xl font-serif font-bold italic text-white">{t('replay.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+        <p className="text-white/60 mb-6 text-sm font-mono">{t('replay.progress', { seed: state.seed, step, last })}</p>
+
+        <div className="flex flex-col gap-3 max-h-[50vh] overflow-y-auto">
+          {frame.seats.map((seat, i) => (
+            <div
+              key={i}
+              className={`p-3 rounded-xl border ${i === frame.currentSeat && frame.status !== 'game_over' ? 'border-yellow-400/60 bg-yellow-400/10' : 'border-white/10 bg-white/5'}`}
+            >
+              <div className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">
+                {displayName(seat.name)} ({seat.hand.length}){i === frame.winner ? ` • ${t('replay.winner')}` : ''}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {seat.hand.map(card => <MiniCard key={card.id} card={card} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4 my-6">
+          <div className="flex flex-col items-center gap-1">
+            <MiniCard card={getTopCard(frame)} />
+            <span className="text-[10px] font-mono text-white/40 uppercase">{t('replay.top')}</span>
+          </div>
+          {frame.currentSuit && (
+            <span className={`text-2xl ${getTheme().suitColors[frame.currentSuit]} ${getTheme().face} rounded-full w-10 h-10 flex items-center justify-center`}>
+              {SUIT_SYMBOLS[frame.currentSuit]}
+            </span>
+          )}
+          <p className="flex-1 text-sm text-white/90">
+            {entries.map(entry => describeLogEntry(entry, frame.seats, entry.type === 'draw' ? entry.seat : null)).join(' • ')}
+          </p>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="w-full accent-yellow-400 mb-4"
+        />
+        <div className="flex items-center justify-center gap-2">
+          <button onClick={() => setStep(0)} title={t('replay.first')} className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20">
+            <ChevronsLeft className="w-5 h-5" />
+          </button>
+          <button onClick={() => setStep(Math.max(0, step - 1))} title={t('replay.back')} className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => {
+              if (step >= last) setStep(0);
+              setPlaying(!playing);
+            }}
+            title={playing ? t('replay.pause') : t('replay.play')}
+            className="p-3 rounded-full bg-yellow-400 hover:bg-yellow-300 text-emerald-950 transition-colors"
+          >
+            {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button onClick={() => setStep(Math.min(last, step + 1))} title={t('replay.forward')} className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <button onClick={() => setStep(last)} title={t('replay.last')} className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors border border-white/20">
+            <ChevronsRight className="w-5 h-5" />
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
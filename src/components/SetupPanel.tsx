@@ -0,0 +1,401 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, RotateCcw, User, Cpu, Plus, Minus, Upload } from 'lucide-react';
+import { AiDifficulty, PlayerConfig, RuleSet, SeatKind } from '../types';
+import { DECK_COUNTS, RULE_OPTIONS } from '../rules';
+import { MIN_SEATS, MAX_SEATS } from '../engine';
+import { AI_DIFFICULTIES } from '../ai';
+import { SearchBudget } from '../ai/ismcts';
+import { MATCH_TARGETS } from '../match';
+import { AI_DELAYS, CLOCK_SECONDS, TURN_SECONDS, TimeControl } from '../clock';
+import { THEMES, ThemeKey, readCardBackImage } from '../themes';
+import { ANIMATION_SPEEDS, AnimationSpeed } from '../animation';
+import { VOLUMES, SoundSettings } from '../sound';
+import { t, displayName } from '../i18n';
+
+// A lone human is "You"; hot-seat humans and multiple AIs are numbered.
+// Difficulties carry over by seat position.
+export const namePlayers = (kinds: SeatKind[], previous: PlayerConfig[] = []): PlayerConfig[] => {
+  const humanCount = kinds.filter(k => k === 'human').length;
+  const aiCount = kinds.length - humanCount;
+  let humans = 0;
+  let ais = 0;
+  return kinds.map((kind, i) => {
+    if (kind === 'human') {
+      humans++;
+      return { kind, name: humanCount === 1 ? 'You' : `Player ${humans}` };
+    }
+    ais++;
+    return { kind, name: aiCount === 1 ? 'AI' : `AI ${ais}`, difficulty: previous[i]?.difficulty ?? 'normal' };
+  });
+};
+
+// A labelled row of mutually exclusive buttons
+const OptionRow = <T,>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div>
+    <div className="text-xs text-white/50 mb-1">{label}</div>
+    <div className="grid grid-cols-4 gap-2">
+      {options.map((option) => (
+        <button
+          key={String(option.value)}
+          onClick={() => onChange(option.value)}
+          className={`p-2 rounded-xl border text-xs font-bold transition-all ${
+            value === option.value
+              ? 'bg-yellow-400 text-emerald-950 border-yellow-300'
+              : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const SetupPanel = ({
+  players,
+  rules,
+  expertBudget,
+  onExpertBudgetChange,
+  matchTarget,
+  onMatchTargetChange,
+  timeControl,
+  onTimeControlChange,
+  theme,
+  onThemeChange,
+  cardBack,
+  onCardBackChange,
+  animationSpeed,
+  onAnimationSpeedChange,
+  sound,
+  onSoundChange,
+  onPlayersChange,
+  onRulesChange,
+  onApply,
+  onClose,
+}: {
+  players: PlayerConfig[];
+  rules: RuleSet;
+  expertBudget: SearchBudget;
+  onExpertBudgetChange: (budget: SearchBudget) => void;
+  matchTarget: number | null;
+  onMatchTargetChange: (target: number | null) => void;
+  timeControl: TimeControl;
+  onTimeControlChange: (timeControl: TimeControl) => void;
+  theme: ThemeKey;
+  onThemeChange: (theme: ThemeKey) => void;
+  cardBack: string | null; // Uploaded card-back image, as a data URL
+  onCardBackChange: (image: string | null) => boolean; // False if the image couldn't be stored
+  animationSpeed: AnimationSpeed;
+  onAnimationSpeedChange: (speed: AnimationSpeed) => void;
+  sound: SoundSettings;
+  onSoundChange: (sound: SoundSettings) => void;
+  onPlayersChange: (players: PlayerConfig[]) => void;
+  onRulesChange: (rules: RuleSet) => void;
+  onApply: () => void;
+  onClose: () => void;
+}) => {
+  const kinds = players.map(p => p.kind);
+  const [uploadFailed, setUploadFailed] = useState(false);
+
+  const uploadCardBack = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setUploadFailed(!onCardBackChange(await readCardBackImage(file)));
+    } catch {
+      setUploadFailed(true);
+    }
+  };
+
+  const toggleKind = (index: number) =>
+    onPlayersChange(namePlayers(kinds.map((k, i) => (i === index ? (k === 'human' ? 'ai' : 'human') : k)), players));
+
+  const setDifficulty = (index: number, difficulty: AiDifficulty) =>
+    onPlayersChange(players.map((p, i) => (i === index ? { ...p, difficulty } : p)));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-md w-full"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-3xl font-serif font-bold italic text-white">{t('setup.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+        <p className="text-white/60 mb-6 text-sm">{t('setup.applyNote')}</p>
+
+        <div className="max-h-[60vh] overflow-y-auto flex flex-col gap-6">
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-mono uppercase tracking-widest text-white/60">{t('setup.seats', { count: players.length })}</h3>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onPlayersChange(namePlayers(kinds.slice(0, -1), players))}
+                  disabled={players.length <= MIN_SEATS}
+                  className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onPlayersChange(namePlayers([...kinds, 'ai'], players))}
+                  disabled={players.length >= MAX_SEATS}
+                  className="p-1 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {players.map((player, i) => (
+                <div
+                  key={i}
+                  className="flex items-center gap-2 p-3 rounded-xl bg-white/5 border border-white/10"
+                >
+                  <button
+                    onClick={() => toggleKind(i)}
+                    title={t('setup.toggleKind')}
+                    className="flex items-center gap-2 flex-1 text-left hover:opacity-80 transition-opacity"
+                  >
+                    {player.kind === 'human' ? <User className="w-4 h-4 text-emerald-300" /> : <Cpu className="w-4 h-4 text-white/60" />}
+                    <span className="text-sm font-bold text-white">{displayName(player.name)}</span>
+                  </button>
+                  {player.kind === 'ai' && (
+                    <select
+                      value={player.difficulty ?? 'normal'}
+                      onChange={(e) => setDifficulty(i, e.target.value as AiDifficulty)}
+                      className="bg-emerald-900 text-xs text-white/80 rounded-lg px-1 py-1 border border-white/10"
+                    >
+                      {AI_DIFFICULTIES.map(d => (
+                        <option key={d.key} value={d.key}>{t(`difficulty.${d.key}`)}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.match')}</h3>
+            <div className="grid grid-cols-4 gap-2">
+              {[null, ...MATCH_TARGETS].map((target) => (
+                <button
+                  key={target ?? 'single'}
+                  onClick={() => onMatchTargetChange(target)}
+                  className={`p-2 rounded-xl border text-xs font-bold transition-all ${
+                    matchTarget === target
+                      ? 'bg-yellow-400 text-emerald-950 border-yellow-300'
+                      : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80'
+                  }`}
+                >
+                  {target === null ? t('setup.single') : t('setup.target', { target })}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.pace')}</h3>
+            <p className="text-white/40 mb-2 text-xs">{t('setup.paceHint')}</p>
+            <div className="flex flex-col gap-3">
+              <OptionRow
+                label={t('setup.turnTimer')}
+                options={TURN_SECONDS.map(seconds => ({
+                  value: seconds,
+                  label: seconds === null ? t('setup.off') : t('setup.seconds', { count: seconds }),
+                }))}
+                value={timeControl.turnSeconds}
+                onChange={(turnSeconds) => onTimeControlChange({ ...timeControl, turnSeconds })}
+              />
+              <OptionRow
+                label={t('setup.speedClock')}
+                options={CLOCK_SECONDS.map(seconds => ({
+                  value: seconds,
+                  label: seconds === null ? t('setup.off') : t('setup.minutes', { count: seconds / 60 }),
+                }))}
+                value={timeControl.clockSeconds}
+                onChange={(clockSeconds) => onTimeControlChange({ ...timeControl, clockSeconds })}
+              />
+              <OptionRow
+                label={t('setup.aiDelay')}
+                options={AI_DELAYS.map(delay => ({ value: delay.ms, label: t(`aiDelay.${delay.key}`) }))}
+                value={timeControl.aiDelayMs}
+                onChange={(aiDelayMs) => onTimeControlChange({ ...timeControl, aiDelayMs })}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.appearance')}</h3>
+            <p className="text-white/40 mb-2 text-xs">{t('setup.appearanceHint')}</p>
+            <div className="flex flex-col gap-3">
+              <OptionRow
+                label={t('setup.theme')}
+                options={THEMES.map(({ key }) => ({ value: key, label: t(`theme.${key}`) }))}
+                value={theme}
+                onChange={onThemeChange}
+              />
+              <div>
+                <div className="text-xs text-white/50 mb-1">{t('setup.cardBack')}</div>
+                <div className="flex items-center gap-3">
+                  {cardBack && <img src={cardBack} alt="" className="w-10 h-14 rounded-md object-cover border border-white/20" />}
+                  <label className="flex items-center gap-2 p-2 rounded-xl border text-xs font-bold bg-white/5 hover:bg-white/10 border-white/10 text-white/80 cursor-pointer transition-all">
+                    <Upload className="w-4 h-4" /> {t('setup.uploadCardBack')}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="sr-only"
+                      onChange={(e) => {
+                        uploadCardBack(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {cardBack && (
+                    <button
+                      onClick={() => onCardBackChange(null)}
+                      className="p-2 rounded-xl border text-xs font-bold bg-white/5 hover:bg-white/10 border-white/10 text-white/80 transition-all"
+                    >
+                      {t('setup.removeCardBack')}
+                    </button>
+                  )}
+                </div>
+                {uploadFailed && <p role="alert" className="text-red-300 text-xs mt-1">{t('setup.uploadFailed')}</p>}
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.soundAndMotion')}</h3>
+            <p className="text-white/40 mb-2 text-xs">{t('setup.reducedMotionHint')}</p>
+            <div className="flex flex-col gap-3">
+              <OptionRow
+                label={t('setup.volume')}
+                options={[
+                  { value: 0, label: t('setup.off') },
+                  ...VOLUMES.map(volume => ({ value: volume.level, label: t(`volume.${volume.key}`) })),
+                ]}
+                value={sound.muted ? 0 : sound.volume}
+                onChange={(volume) => onSoundChange(volume === 0 ? { ...sound, muted: true } : { ...sound, volume, muted: false })}
+              />
+              <OptionRow
+                label={t('setup.haptics')}
+                options={[{ value: true, label: t('setup.on') }, { value: false, label: t('setup.off') }]}
+                value={sound.haptics}
+                onChange={(haptics) => onSoundChange({ ...sound, haptics })}
+              />
+              <OptionRow
+                label={t('setup.animationSpeed')}
+                options={ANIMATION_SPEEDS.map(({ key }) => ({ value: key, label: t(`animationSpeed.${key}`) }))}
+                value={animationSpeed}
+                onChange={onAnimationSpeedChange}
+              />
+            </div>
+          </section>
+
+          {players.some(p => p.difficulty === 'expert' && p.kind === 'ai') && (
+            <section>
+              <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.expertBudget')}</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1 p-3 rounded-xl bg-white/5 border border-white/10">
+                  <span className="text-xs text-white/50">{t('setup.thinkTime')}</span>
+                  <input
+                    type="number"
+                    min={100}
+                    max={10000}
+                    step={100}
+                    value={expertBudget.timeMs}
+                    onChange={(e) => onExpertBudgetChange({ ...expertBudget, timeMs: Number(e.target.value) })}
+                    className="bg-transparent text-sm font-bold text-white outline-none"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 p-3 rounded-xl bg-white/5 border border-white/10">
+                  <span className="text-xs text-white/50">{t('setup.iterations')}</span>
+                  <input
+                    type="number"
+                    min={100}
+                    max={100000}
+                    step={500}
+                    value={expertBudget.iterations}
+                    onChange={(e) => onExpertBudgetChange({ ...expertBudget, iterations: Number(e.target.value) })}
+                    className="bg-transparent text-sm font-bold text-white outline-none"
+                  />
+                </label>
+              </div>
+            </section>
+          )}
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.decks')}</h3>
+            <p className="text-white/40 mb-2 text-xs">{t('setup.decksHint')}</p>
+            <div className="grid grid-cols-3 gap-2">
+              {DECK_COUNTS.map((decks) => (
+                <button
+                  key={decks}
+                  onClick={() => onRulesChange({ ...rules, decks })}
+                  className={`p-2 rounded-xl border text-xs font-bold transition-all ${
+                    rules.decks === decks
+                      ? 'bg-yellow-400 text-emerald-950 border-yellow-300'
+                      : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80'
+                  }`}
+                >
+                  {decks}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('setup.houseRules')}</h3>
+            <p className="text-white/40 mb-2 text-xs">{t('rules.alwaysWild')}</p>
+            <div className="flex flex-col gap-2">
+              {RULE_OPTIONS.map((option) => (
+                <label
+                  key={option.key}
+                  className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 cursor-pointer transition-all"
+                >
+                  <div>
+                    <div className="text-sm font-bold text-white">{t(`rules.${option.key}.label`)}</div>
+                    <div className="text-xs text-white/50">{t(`rules.${option.key}.description`)}</div>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={rules[option.key]}
+                    onChange={(e) => onRulesChange({ ...rules, [option.key]: e.target.checked })}
+                    className="w-5 h-5 accent-yellow-400"
+                  />
+                </label>
+              ))}
+            </div>
+          </section>
+        </div>
+
+        <button
+          onClick={onApply}
+          className="mt-6 w-full py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 text-emerald-950 font-bold shadow-lg transition-all flex items-center justify-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> {t('setup.apply')}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
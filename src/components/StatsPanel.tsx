@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Cpu, User } from 'lucide-react';
+import { PlayerStats } from '../types';
+import { SUIT_SYMBOLS } from '../constants';
+import { fetchPlayerStats } from '../api';
+import { t, displayName } from '../i18n';
+
+export const StatsPanel = ({ onClose }: { onClose: () => void }) => {
+  const [stats, setStats] = useState<PlayerStats[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPlayerStats()
+      .then(setStats)
+      .catch(() => setError(t('stats.offline')));
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-2xl w-full"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-3xl font-serif font-bold italic text-white">{t('stats.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+
+        {error && <p className="text-white/60 text-sm">{error}</p>}
+        {!error && !stats && <p className="text-white/60 text-sm">{t('stats.loading')}</p>}
+        {stats && stats.length === 0 && <p className="text-white/60 text-sm">{t('stats.empty')}</p>}
+
+        {stats && stats.length > 0 && (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <table className="w-full text-sm text-white/80">
+              <thead>
+                <tr className="text-[10px] font-mono uppercase tracking-widest text-white/40">
+                  <th className="text-left font-normal pb-2">{t('stats.player')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.games')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.winRate')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.streak')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.best')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.averageScore')}</th>
+                  <th className="text-right font-normal pb-2">{t('stats.favoriteSuit')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((p) => (
+                  <tr key={`${p.kind}:${p.name}`} className="border-t border-white/10">
+                    <td className="py-2">
+                      <span className="flex items-center gap-2">
+                        {p.kind === 'ai' ? <Cpu className="w-4 h-4 text-white/40" /> : <User className="w-4 h-4 text-emerald-300" />}
+                        {displayName(p.name)}
+                      </span>
+                    </td>
+                    <td className="text-right font-mono">{p.games}</td>
+                    <td className="text-right font-mono">{(p.winRate * 100).toFixed(0)}%</td>
+                    <td className="text-right font-mono">{p.currentStreak}</td>
+                    <td className="text-right font-mono">{p.longestStreak}</td>
+                    <td className="text-right font-mono">{p.averageScore}</td>
+                    <td className="text-right text-lg">{p.favoriteSuit ? SUIT_SYMBOLS[p.favoriteSuit] : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,417 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, User, Cpu, Plus, Trash2, ChevronLeft, Trophy, Play, FastForward } from 'lucide-react';
+import { AiDifficulty, PlayerConfig, RuleSet, Tournament, TournamentFormat } from '../types';
+import { AI_DIFFICULTIES } from '../ai';
+import { describeRules } from '../rules';
+import { MATCH_TARGETS } from '../match';
+import {
+  MIN_ENTRANTS,
+  MAX_ENTRANTS,
+  TOURNAMENT_FORMATS,
+  createTournament,
+  getChampion,
+  getStandings,
+  isAiPairing,
+  simulatePairing,
+} from '../tournament';
+import { t, displayName, difficultyName } from '../i18n';
+
+const entrantLabel = (entrant: PlayerConfig) =>
+  entrant.kind === 'ai' ? `${displayName(entrant.name)} (${difficultyName(entrant.difficulty)})` : displayName(entrant.name);
+
+// Registration for a new tournament. The house rules from Game Setup apply to every game.
+const TournamentForm = ({
+  number,
+  rules,
+  onCreate,
+  onCancel,
+}: {
+  number: number; // For the default name
+  rules: RuleSet;
+  onCreate: (tournament: Tournament) => void;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('round_robin');
+  const [target, setTarget] = useState(MATCH_TARGETS[0]);
+  const [entrants, setEntrants] = useState<PlayerConfig[]>([]);
+  const [playerName, setPlayerName] = useState('');
+  const [difficulty, setDifficulty] = useState<AiDifficulty>('normal');
+
+  const trimmedName = playerName.trim();
+  const isFull = entrants.length >= MAX_ENTRANTS;
+  const canAddHuman = !isFull && trimmedName !== '' && !entrants.some(e => e.name === trimmedName);
+
+  const addHuman = () => {
+    if (!canAddHuman) return;
+    setEntrants([...entrants, { name: trimmedName, kind: 'human' }]);
+    setPlayerName('');
+  };
+
+  // AI entrants are numbered so each has a name of its own
+  const addAi = () => {
+    let n = 1;
+    while (entrants.some(e => e.name === `AI ${n}`)) n++;
+    setEntrants([...entrants, { name: `AI ${n}`, kind: 'ai', difficulty }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <label className="flex flex-col gap-1 p-3 rounded-xl bg-white/5 border border-white/10">
+        <span className="text-xs text-white/50">{t('tournament.name')}</span>
+        <input
+          value={name}
+          maxLength={40}
+          placeholder={t('tournament.defaultName', { number })}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-transparent text-sm font-bold text-white outline-none placeholder:text-white/30"
+        />
+      </label>
+
+      <section>
+        <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('tournament.format')}</h3>
+        <div className="grid grid-cols-2 gap-2">
+          {TOURNAMENT_FORMATS.map(({ key }) => (
+            <button
+              key={key}
+              onClick={() => setFormat(key)}
+              className={`p-3 rounded-xl border text-sm font-bold transition-all ${
+                format === key ? 'bg-yellow-400 text-emerald-950 border-yellow-300' : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80'
+              }`}
+            >
+              {t(`tournament.format.${key}`)}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('tournament.target')}</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {MATCH_TARGETS.map(value => (
+            <button
+              key={value}
+              onClick={() => setTarget(value)}
+              className={`p-3 rounded-xl border text-sm font-bold transition-all ${
+                target === value ? 'bg-yellow-400 text-emerald-950 border-yellow-300' : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80'
+              }`}
+            >
+              {t('tournament.points', { target: value })}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('tournament.entrants', { count: entrants.length })}</h3>
+        <p className="text-white/40 mb-2 text-xs">{t('tournament.entrantHint', { min: MIN_ENTRANTS, max: MAX_ENTRANTS })} {describeRules(rules)}</p>
+        <ul className="flex flex-col gap-1 mb-3">
+          {entrants.map((entrant, i) => (
+            <li key={entrant.name} className="flex items-center gap-2 p-2 rounded-xl bg-white/5 border border-white/10 text-sm text-white">
+              {entrant.kind === 'ai' ? <Cpu className="w-4 h-4 text-white/60" /> : <User className="w-4 h-4 text-emerald-300" />}
+              <span className="flex-1">{entrantLabel(entrant)}</span>
+              <button
+                onClick={() => setEntrants(entrants.filter((_, j) => j !== i))}
+                aria-label={t('tournament.remove', { name: displayName(entrant.name) })}
+                className="p-1 rounded-full hover:bg-white/10 transition-colors"
+              >
+                <X className="w-4 h-4 text-white/60" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2 mb-2">
+          <input
+            value={playerName}
+            maxLength={20}
+            placeholder={t('tournament.playerName')}
+            onChange={(e) => setPlayerName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addHuman()}
+            className="flex-1 px-3 rounded-xl bg-white/5 border border-white/10 text-sm text-white outline-none"
+          />
+          <button
+            onClick={addHuman}
+            disabled={!canAddHuman}
+            className="flex items-center gap-1 px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-30 text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+          >
+            <Plus className="w-3 h-3" /> {t('tournament.addHuman')}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as AiDifficulty)}
+            aria-label={t('tournament.difficulty')}
+            className="flex-1 px-3 rounded-xl bg-white/5 border border-white/10 text-sm text-white outline-none"
+          >
+            {AI_DIFFICULTIES.map(({ key }) => (
+              <option key={key} value={key} className="text-black">{difficultyName(key)}</option>
+            ))}
+          </select>
+          <button
+            onClick={addAi}
+            disabled={isFull}
+            className="flex items-center gap-1 px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-30 text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+          >
+            <Plus className="w-3 h-3" /> {t('tournament.addAi')}
+          </button>
+        </div>
+      </section>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 rounded-2xl bg-white/10 hover:bg-white/20 text-xs font-bold uppercase tracking-wider transition-all border border-white/10"
+        >
+          {t('tournament.cancel')}
+        </button>
+        <button
+          onClick={() => onCreate(createTournament(name.trim() || t('tournament.defaultName', { number }), format, entrants, rules, target))}
+          disabled={entrants.length < MIN_ENTRANTS}
+          className="flex-1 py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 disabled:opacity-40 text-emerald-950 font-bold shadow-lg transition-all"
+        >
+          {t('tournament.create')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Standings and every pairing, round by round
+const TournamentDetail = ({
+  tournament,
+  playing,
+  onChange,
+  onPlay,
+  onResume,
+}: {
+  tournament: Tournament;
+  playing: number | null; // The pairing whose game is unfinished at the table
+  onChange: (tournament: Tournament) => void;
+  onPlay: (index: number) => void;
+  onResume: () => void;
+}) => {
+  const champion = getChampion(tournament);
+  const standings = getStandings(tournament);
+  const rounds = [...new Set(tournament.pairings.map(p => p.round))];
+  const lastRound = rounds[rounds.length - 1];
+  const name = (entrant: number) => displayName(tournament.entrants[entrant].name);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <p className="text-white/40 text-xs">
+        {t(`tournament.format.${tournament.format}`)} • {t('tournament.points', { target: tournament.target })} • {describeRules(tournament.rules)}
+      </p>
+
+      {champion !== null && (
+        <div className="flex items-center gap-3 p-4 rounded-2xl bg-yellow-400/10 border border-yellow-400/40 text-yellow-200 font-bold">
+          <Trophy className="w-6 h-6" /> {t('tournament.champion', { name: name(champion) })}
+        </div>
+      )}
+
+      <section>
+        <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">{t('tournament.standings')}</h3>
+        <table className="w-full text-sm text-white/80">
+          <thead>
+            <tr className="text-[10px] font-mono uppercase tracking-widest text-white/40">
+              <th className="text-left font-normal pb-2">#</th>
+              <th className="text-left font-normal pb-2">{t('stats.player')}</th>
+              <th className="text-right font-normal pb-2">{t('tournament.played')}</th>
+              <th className="text-right font-normal pb-2">{t('tournament.won')}</th>
+              <th className="text-right font-normal pb-2">{t('tournament.lost')}</th>
+              <th className="text-right font-normal pb-2">{t('tournament.pointsShort')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((row, i) => (
+              <tr key={row.entrant} className="border-t border-white/10">
+                <td className="py-2 font-mono">{i + 1}</td>
+                <td className="py-2">{entrantLabel(tournament.entrants[row.entrant])}</td>
+                <td className="text-right font-mono">{row.played}</td>
+                <td className="text-right font-mono">{row.won}</td>
+                <td className="text-right font-mono">{row.lost}</td>
+                <td className="text-right font-mono">{row.points}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-white/40 text-xs mt-2">{t('tournament.tiebreak')}</p>
+      </section>
+
+      {rounds.map(round => (
+        <section key={round}>
+          <h3 className="text-xs font-mono uppercase tracking-widest text-white/60 mb-2">
+            {tournament.format === 'single_elimination' && round === lastRound && champion !== null
+              ? t('tournament.final')
+              : t('tournament.round', { round: round + 1 })}
+          </h3>
+          <ul className="flex flex-col gap-1">
+            {tournament.pairings.map((pairing, index) => {
+              if (pairing.round !== round) return null;
+              const [a, b] = pairing.entrants;
+              return (
+                <li key={index} className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/10 text-sm text-white">
+                  {b === null ? (
+                    <span className="flex-1 text-white/60">{t('tournament.bye', { name: name(a) })}</span>
+                  ) : (
+                    <>
+                      <span className="flex-1">
+                        <span className={pairing.winner === a ? 'font-bold text-yellow-300' : ''}>{name(a)}</span>
+                        <span className="text-white/40"> {t('tournament.vs')} </span>
+                        <span className={pairing.winner === b ? 'font-bold text-yellow-300' : ''}>{name(b)}</span>
+                      </span>
+                      {pairing.match && (
+                        <span className="font-mono text-xs text-white/60">{pairing.match.totals.join('–')}</span>
+                      )}
+                      {pairing.winner === null && (playing === index ? (
+                        <button
+                          onClick={onResume}
+                          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-yellow-400 hover:bg-yellow-300 text-emerald-950 text-xs font-bold transition-all"
+                        >
+                          <Play className="w-3 h-3" /> {t('tournament.resume')}
+                        </button>
+                      ) : isAiPairing(tournament, index) ? (
+                        <button
+                          onClick={() => onChange(simulatePairing(tournament, index))}
+                          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs font-bold transition-all border border-white/10"
+                        >
+                          <FastForward className="w-3 h-3" /> {t('tournament.simulate')}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => onPlay(index)}
+                          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-yellow-400 hover:bg-yellow-300 text-emerald-950 text-xs font-bold transition-all"
+                        >
+                          <Play className="w-3 h-3" /> {pairing.match ? t('tournament.continue') : t('tournament.play')}
+                        </button>
+                      ))}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+// Every tournament saved in this browser, one at a time in detail
+export const TournamentPanel = ({
+  tournaments,
+  rules,
+  playing,
+  onChange,
+  onPlay,
+  onClose,
+}: {
+  tournaments: Tournament[];
+  rules: RuleSet;
+  playing: { id: string; index: number } | null; // Unfinished tournament game at the table
+  onChange: (tournaments: Tournament[]) => void;
+  onPlay: (id: string, index: number) => void;
+  onClose: () => void;
+}) => {
+  const [openId, setOpenId] = useState<string | null>(() => tournaments.find(other => other.active !== null)?.id ?? null);
+  const [creating, setCreating] = useState(false);
+  const open = tournaments.find(other => other.id === openId);
+
+  const update = (tournament: Tournament) => onChange(tournaments.map(other => (other.id === tournament.id ? tournament : other)));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-emerald-950 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            {(open || creating) && (
+              <button
+                onClick={() => { setOpenId(null); setCreating(false); }}
+                aria-label={t('tournament.all')}
+                className="p-2 rounded-full hover:bg-white/10 transition-colors"
+              >
+                <ChevronLeft className="w-5 h-5 text-white/60" />
+              </button>
+            )}
+            <h2 className="text-3xl font-serif font-bold italic text-white">
+              {open ? open.name : creating ? t('tournament.new') : t('tournament.title')}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/60" />
+          </button>
+        </div>
+
+        {creating ? (
+          <TournamentForm
+            number={tournaments.length + 1}
+            rules={rules}
+            onCreate={(tournament) => {
+              onChange([...tournaments, tournament]);
+              setCreating(false);
+              setOpenId(tournament.id);
+            }}
+            onCancel={() => setCreating(false)}
+          />
+        ) : open ? (
+          <TournamentDetail
+            tournament={open}
+            playing={playing?.id === open.id ? playing.index : null}
+            onChange={update}
+            onPlay={(index) => onPlay(open.id, index)}
+            onResume={onClose}
+          />
+        ) : (
+          <div className="flex flex-col gap-4">
+            <p className="text-white/60 text-sm">{t('tournament.intro')}</p>
+            {tournaments.length === 0 && <p className="text-white/40 text-sm">{t('tournament.empty')}</p>}
+            <ul className="flex flex-col gap-2">
+              {tournaments.map((tournament) => {
+                const champion = getChampion(tournament);
+                const decided = tournament.pairings.filter(p => p.winner !== null && p.entrants[1] !== null).length;
+                const total = tournament.pairings.filter(p => p.entrants[1] !== null).length;
+                return (
+                  <li key={tournament.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 text-white">
+                    <button onClick={() => setOpenId(tournament.id)} className="flex-1 text-left">
+                      <div className="font-bold">{tournament.name}</div>
+                      <div className="text-xs text-white/50">
+                        {t(`tournament.format.${tournament.format}`)} • {champion !== null
+                          ? t('tournament.champion', { name: displayName(tournament.entrants[champion].name) })
+                          : tournament.format === 'round_robin'
+                            ? t('tournament.progress', { done: decided, total })
+                            : t('tournament.round', { round: tournament.pairings[tournament.pairings.length - 1].round + 1 })}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => onChange(tournaments.filter(other => other.id !== tournament.id))}
+                      aria-label={t('tournament.delete', { name: tournament.name })}
+                      className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-white/60" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <button
+              onClick={() => setCreating(true)}
+              className="flex items-center justify-center gap-2 py-3 rounded-2xl bg-yellow-400 hover:bg-yellow-300 text-emerald-950 font-bold shadow-lg transition-all"
+            >
+              <Plus className="w-4 h-4" /> {t('tournament.new')}
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -1,4 +1,5 @@
 import { Suit, Rank, Card } from './types';
+import { Rng } from './random';
 
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
@@ -10,38 +11,55 @@ export const SUIT_SYMBOLS: Record<Suit, string> = {
   spades: '♠',
 };
 
-export const SUIT_COLORS: Record<Suit, string> = {
-  hearts: 'text-red-500',
-  diamonds: 'text-red-500',
-  clubs: 'text-slate-900',
-  spades: 'text-slate-900',
-};
+export const MAX_DECKS = 3;
+export const JOKERS_PER_DECK = 2;
 
-export const createDeck = (): Card[] => {
+// Cards from the first deck keep plain ids like "7-hearts" so single-deck saves stay
+// valid; later decks add their number ("7-hearts-2")
+export const createDeck = (decks: number = 1, jokers: boolean = false): Card[] => {
   const deck: Card[] = [];
-  SUITS.forEach((suit) => {
-    RANKS.forEach((rank) => {
-      deck.push({
-        id: `${rank}-${suit}`,
-        suit,
-        rank,
+  for (let d = 1; d <= decks; d++) {
+    const suffix = d === 1 ? '' : `-${d}`;
+    SUITS.forEach((suit) => {
+      RANKS.forEach((rank) => {
+        deck.push({
+          id: `${rank}-${suit}${suffix}`,
+          suit,
+          rank,
+        });
       });
     });
-  });
+    if (jokers) {
+      for (let j = 1; j <= JOKERS_PER_DECK; j++) deck.push({ id: `joker-${j}${suffix}`, suit: null, rank: 'Joker' });
+    }
+  }
   return deck;
 };
 
-export const shuffle = (deck: Card[]): Card[] => {
+// 8s and jokers can be played on anything and name the next suit
+export const isWild = (card: Card): boolean => card.rank === '8' || card.rank === 'Joker';
+
+export const shuffle = (deck: Card[], rng: Rng = Math.random): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 };
 
 export const isValidMove = (card: Card, topCard: Card, currentSuit: Suit | null): boolean => {
-  if (card.rank === '8') return true;
+  if (isWild(card)) return true;
   const targetSuit = currentSuit || topCard.suit;
   return card.suit === targetSuit || card.rank === topCard.rank;
 };
+
+// Standard Crazy Eights values: 8s and jokers = 50, face cards = 10, aces = 1, others pip value
+export const getCardPoints = (card: Card): number => {
+  if (isWild(card)) return 50;
+  if (card.rank === 'J' || card.rank === 'Q' || card.rank === 'K') return 10;
+  if (card.rank === 'A') return 1;
+  return Number(card.rank);
+};
+
+export const getHandPoints = (hand: Card[]): number => hand.reduce((sum, c) => sum + getCardPoints(c), 0);
@@ -0,0 +1,77 @@
+import { AiDifficulty, DailyResult, GameState, PlayerConfig } from './types';
+import { DEFAULT_RULES } from './rules';
+import { initGame, reduce } from './engine';
+import { chooseAiAction, createStrategy } from './ai';
+import { getLogActions } from './history';
+
+// The Daily Challenge: one deal per UTC day, the same for everyone, heads-up against
+// the Hard AI under the standard rules. Each name gets one attempt, enforced by the
+// server, which replays the submitted game before ranking it. Without accounts a new
+// name is a new attempt; the leaderboard trusts players not to do that.
+
+export const DAILY_DIFFICULTY: AiDifficulty = 'hard';
+export const DAILY_OPPONENT = 'AI';
+export const MAX_NAME_LENGTH = 24;
+
+const SEED_PREFIX = 'daily-';
+
+// 2026-10-19T23:30:00-05:00 -> "2026-10-20": the day turns over at midnight UTC everywhere
+export const getDailyDate = (now: Date = new Date()): string => now.toISOString().slice(0, 10);
+
+export const isDailyDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && getDailyDate(new Date(`${value}T00:00:00Z`)) === value;
+
+export const getDailySeed = (date: string): string => SEED_PREFIX + date;
+
+// Daily seeds are only dealt by `createDailyGame`. One opened any other way, from a link
+// or from a file with its setup changed, would be a practice run with undo and hints.
+export const isDailySeed = (seed: string): boolean => seed.startsWith(SEED_PREFIX);
+
+const getDailyPlayers = (name: string): PlayerConfig[] => [
+  { name, kind: 'human' },
+  { name: DAILY_OPPONENT, kind: 'ai', difficulty: DAILY_DIFFICULTY },
+];
+
+// The player always leads
+export const createDailyGame = (date: string, name: string): GameState =>
+  initGame(getDailySeed(date), DEFAULT_RULES, getDailyPlayers(name), 1);
+
+// The challenge date of a game dealt by `createDailyGame`, or null for any other game
+export const getDailyGameDate = (state: GameState): string | null => {
+  const date = state.seed?.startsWith(SEED_PREFIX) ? state.seed.slice(SEED_PREFIX.length) : null;
+  if (!isDailyDate(date)) return null;
+  const expected = createDailyGame(date, state.seats[0].name);
+  const setup = (s: GameState) => JSON.stringify({ rules: s.rules, dealer: s.dealer, seats: s.seats.map(({ hand, ...player }) => player) });
+  return setup(state) === setup(expected) ? date : null;
+};
+
+// The Hard AI always makes the same move in the same position, so a submitted game can be
+// checked for an opponent that played along. Returns the number of the first AI move that
+// differs from the Hard AI's, or null when they all match. `state` must replay legally.
+export const findForeignAiMove = (state: GameState): number | null => {
+  const strategy = createStrategy(DAILY_DIFFICULTY);
+  let replayed = initGame(state.seed, state.rules, state.seats.map(({ hand, ...player }) => player), state.dealer);
+  for (const [i, action] of getLogActions(state.log).entries()) {
+    const next = reduce(replayed, action);
+    // Compared by what they log, which names the cards played
+    if (action.seat === 1 && JSON.stringify(reduce(replayed, chooseAiAction(replayed, strategy)).log) !== JSON.stringify(next.log)) {
+      return i + 1;
+    }
+    replayed = next;
+  }
+  return null;
+};
+
+// Scores a finished challenge. Returns null for anything that isn't one.
+export const createDailyResult = (state: GameState, durationMs: number): DailyResult | null => {
+  const date = getDailyGameDate(state);
+  if (!date || state.status !== 'game_over') return null;
+  return {
+    date,
+    name: state.seats[0].name,
+    won: state.winner === 0,
+    moves: getLogActions(state.log).filter(a => a.seat === 0 && a.type !== 'choose_suit').length,
+    opponentCardsLeft: state.seats[1].hand.length,
+    durationMs: Math.round(durationMs),
+  };
+};
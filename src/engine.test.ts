@@ -0,0 +1,362 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, GameAction, GameState, Rank, RejectionReason, RuleSet, Suit } from './types';
+import { DEFAULT_RULES } from './rules';
+import { createDeck } from './constants';
+import { createInitialState, initGame, applyAction, getRejection, getLegalActions, reduce } from './engine';
+import { chooseAiAction, createStrategy, keepsTurn } from './ai';
+
+// Every GameStatus transition and every RejectionReason, on small hand-built tables
+
+const card = (rank: Rank, suit: Suit): Card => ({ id: `${rank}-${suit}`, suit, rank });
+
+// Heads-up with seat 0 to move. The last discard is the top card.
+const createTable = ({
+  hands,
+  discardPile,
+  deck = [],
+  rules = {},
+  ...overrides
+}: {
+  hands: Card[][];
+  discardPile: Card[];
+  deck?: Card[];
+  rules?: Partial<RuleSet>;
+} & Partial<Omit<GameState, 'rules'>>): GameState => ({
+  ...initGame('test', { ...DEFAULT_RULES, ...rules }),
+  seats: hands.map((hand, i) => ({ name: `Player ${i + 1}`, kind: 'human', hand })),
+  discardPile,
+  deck,
+  currentSeat: 0,
+  ...overrides,
+});
+
+const apply = (state: GameState, action: GameAction): GameState => {
+  const result = applyAction(state, action);
+  if (result.ok === false) assert.fail(`${action.type} was rejected: ${result.reason}`);
+  return result.state;
+};
+
+describe('dealing', () => {
+  test('a table waiting for its deal accepts no moves', () => {
+    const state = createInitialState('test');
+    assert.equal(state.status, 'dealing');
+    assert.equal(getRejection(state, { type: 'draw_card', seat: state.currentSeat }), 'wrong_phase');
+  });
+
+  test('dealing leaves the table playing, with full hands and a first discard', () => {
+    const state = initGame('test');
+    assert.equal(state.status, 'playing');
+    assert.deepEqual(state.seats.map(s => s.hand.length), [8, 8]);
+    assert.equal(state.discardPile.length, 1);
+    assert.equal(state.deck.length, 52 - 16 - 1);
+    assert.deepEqual(state.log.map(e => e.type), ['deal']);
+  });
+
+  test('the same seed deals the same game', () => {
+    assert.deepEqual(initGame('same'), initGame('same'));
+  });
+});
+
+describe('playing', () => {
+  test('a matching card goes on the pile and passes the turn', () => {
+    const state = apply(
+      createTable({ hands: [[card('5', 'spades'), card('K', 'clubs')], [card('2', 'hearts')]], discardPile: [card('5', 'hearts')] }),
+      { type: 'play_card', seat: 0, cardId: '5-spades' },
+    );
+    assert.equal(state.status, 'playing');
+    assert.equal(state.currentSeat, 1);
+    assert.equal(state.discardPile.at(-1)?.id, '5-spades');
+  });
+
+  test('an 8 waits for a suit, then play carries on in that suit', () => {
+    let state = apply(
+      createTable({ hands: [[card('8', 'clubs'), card('K', 'clubs')], [card('2', 'hearts')]], discardPile: [card('5', 'hearts')] }),
+      { type: 'play_card', seat: 0, cardId: '8-clubs' },
+    );
+    assert.equal(state.status, 'suit_selection');
+    assert.equal(state.currentSeat, 0);
+
+    state = apply(state, { type: 'choose_suit', seat: 0, suit: 'diamonds' });
+    assert.equal(state.status, 'playing');
+    assert.equal(state.currentSuit, 'diamonds');
+    assert.equal(state.currentSeat, 1);
+  });
+});
+
+describe('house rules', () => {
+  test('a 2 makes the next seat draw two, then play moves on', () => {
+    let state = apply(
+      createTable({ hands: [[card('2', 'hearts'), card('K', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], deck: [card('9', 'clubs'), card('9', 'spades')], rules: { drawTwo: true } }),
+      { type: 'play_card', seat: 0, cardId: '2-hearts' },
+    );
+    assert.equal(state.pendingDraw, 2);
+    assert.equal(state.currentSeat, 1);
+
+    state = apply(state, { type: 'draw_card', seat: 1 });
+    assert.equal(state.seats[1].hand.length, 3);
+    assert.equal(state.pendingDraw, 0);
+    assert.equal(state.currentSeat, 0);
+  });
+
+  test('with stacking, a 2 on a pending 2 passes on four', () => {
+    const state = apply(
+      createTable({
+        hands: [[card('K', 'clubs')], [card('2', 'spades'), card('3', 'spades')]],
+        discardPile: [card('2', 'hearts')],
+        rules: { drawTwo: true, stackPenalties: true },
+        pendingDraw: 2,
+        currentSeat: 1,
+      }),
+      { type: 'play_card', seat: 1, cardId: '2-spades' },
+    );
+    assert.equal(state.pendingDraw, 4);
+    assert.equal(state.currentSeat, 0);
+  });
+
+  test('the queen of spades makes the next seat draw five', () => {
+    const state = apply(
+      createTable({ hands: [[card('Q', 'spades'), card('K', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'spades')], rules: { queenOfSpadesDrawFive: true } }),
+      { type: 'play_card', seat: 0, cardId: 'Q-spades' },
+    );
+    assert.equal(state.pendingDraw, 5);
+  });
+
+  test('a jack skips the next seat', () => {
+    const state = apply(
+      createTable({ hands: [[card('J', 'hearts'), card('K', 'clubs')], [card('3', 'spades')], [card('4', 'spades')]], discardPile: [card('5', 'hearts')], rules: { jackSkips: true } }),
+      { type: 'play_card', seat: 0, cardId: 'J-hearts' },
+    );
+    assert.equal(state.currentSeat, 2);
+  });
+
+  test('an ace turns play around', () => {
+    const state = apply(
+      createTable({ hands: [[card('A', 'hearts'), card('K', 'clubs')], [card('3', 'spades')], [card('4', 'spades')]], discardPile: [card('5', 'hearts')], rules: { aceReverses: true } }),
+      { type: 'play_card', seat: 0, cardId: 'A-hearts' },
+    );
+    assert.equal(state.direction, -1);
+    assert.equal(state.currentSeat, 2);
+  });
+
+  test('drawing until playable keeps the turn after a draw', () => {
+    const state = apply(
+      createTable({ hands: [[card('K', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], deck: [card('9', 'clubs'), card('9', 'hearts')], rules: { drawUntilPlayable: true } }),
+      { type: 'draw_card', seat: 0 },
+    );
+    assert.equal(state.currentSeat, 0);
+    assert.equal(state.seats[0].hand.length, 2);
+  });
+
+  test('an 8 that would be the last card cannot be played, so its holder draws', () => {
+    const state = createTable({ hands: [[card('8', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], deck: [card('9', 'clubs')], rules: { noEightFinish: true } });
+    assert.deepEqual(getLegalActions(state, 0), [{ type: 'draw_card', seat: 0 }]);
+  });
+});
+
+describe('playing sets', () => {
+  const playSet = (cardId: string, ...extraCardIds: string[]): GameAction => ({ type: 'play_card', seat: 0, cardId, extraCardIds });
+  const others = [[card('3', 'spades')], [card('4', 'spades')], [card('6', 'spades')]];
+
+  test('every card in a set adds its penalty', () => {
+    const state = apply(
+      createTable({ hands: [[card('2', 'hearts'), card('2', 'spades'), card('K', 'clubs')], ...others], discardPile: [card('5', 'hearts')], rules: { multiCardPlay: true, drawTwo: true } }),
+      playSet('2-hearts', '2-spades'),
+    );
+    assert.equal(state.pendingDraw, 4);
+  });
+
+  test('every jack in a set skips one more seat', () => {
+    const state = apply(
+      createTable({ hands: [[card('J', 'hearts'), card('J', 'spades'), card('K', 'clubs')], ...others], discardPile: [card('5', 'hearts')], rules: { multiCardPlay: true, jackSkips: true } }),
+      playSet('J-hearts', 'J-spades'),
+    );
+    assert.equal(state.currentSeat, 3);
+  });
+
+  test('aces in a set reverse once each, so an even number keeps the direction', () => {
+    const hand = [card('A', 'hearts'), card('A', 'spades'), card('A', 'clubs'), card('K', 'clubs')];
+    const table = createTable({ hands: [hand, ...others], discardPile: [card('5', 'hearts')], rules: { multiCardPlay: true, aceReverses: true } });
+
+    const pair = apply(table, playSet('A-hearts', 'A-spades'));
+    assert.equal(pair.direction, 1);
+    assert.equal(pair.currentSeat, 1);
+
+    const three = apply(table, playSet('A-hearts', 'A-spades', 'A-clubs'));
+    assert.equal(three.direction, -1);
+    assert.equal(three.currentSeat, 3);
+  });
+
+  test('the last card of a set is the one to match', () => {
+    const state = apply(
+      createTable({ hands: [[card('5', 'spades'), card('5', 'clubs'), card('K', 'clubs')], [card('9', 'clubs'), card('9', 'spades')]], discardPile: [card('5', 'hearts')], rules: { multiCardPlay: true } }),
+      playSet('5-spades', '5-clubs'),
+    );
+    assert.equal(state.discardPile.at(-1)?.id, '5-clubs');
+    assert.equal(getRejection(state, { type: 'play_card', seat: 1, cardId: '9-clubs' }), null);
+    assert.equal(getRejection(state, { type: 'play_card', seat: 1, cardId: '9-spades' }), 'illegal_card');
+  });
+
+  test('a set that empties the hand goes out', () => {
+    const state = apply(
+      createTable({ hands: [[card('5', 'spades'), card('5', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], rules: { multiCardPlay: true } }),
+      playSet('5-spades', '5-clubs'),
+    );
+    assert.equal(state.status, 'game_over');
+    assert.equal(state.endReason, 'went_out');
+    assert.equal(state.winner, 0);
+  });
+});
+
+describe('decks and jokers', () => {
+  test('every card in a multi-deck shoe has its own id, with the first deck keeping plain ones', () => {
+    const deck = createDeck(3, true);
+    assert.equal(deck.length, 3 * 54);
+    assert.equal(new Set(deck.map(c => c.id)).size, deck.length);
+    assert.deepEqual(deck.filter(c => c.rank === '7' && c.suit === 'hearts').map(c => c.id), ['7-hearts', '7-hearts-2', '7-hearts-3']);
+  });
+
+  test('a two-deck deal uses the whole shoe once', () => {
+    const state = initGame('test', { ...DEFAULT_RULES, decks: 2 });
+    const ids = [...state.deck, ...state.discardPile, ...state.seats.flatMap(s => s.hand)].map(c => c.id);
+    assert.equal(ids.length, 104);
+    assert.equal(new Set(ids).size, 104);
+  });
+
+  test('a joker is wild and makes the next seat draw four', () => {
+    const joker: Card = { id: 'joker-1', suit: null, rank: 'Joker' };
+    let state = apply(
+      createTable({ hands: [[joker, card('K', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], rules: { jokers: true } }),
+      { type: 'play_card', seat: 0, cardId: 'joker-1' },
+    );
+    assert.equal(state.status, 'suit_selection');
+    assert.equal(state.pendingDraw, 4);
+
+    state = apply(state, { type: 'choose_suit', seat: 0, suit: 'clubs' });
+    assert.equal(state.currentSeat, 1);
+    assert.deepEqual(getLegalActions(state, 1), [{ type: 'draw_card', seat: 1 }]);
+  });
+});
+
+describe('game over', () => {
+  test('playing the last card goes out', () => {
+    const state = apply(
+      createTable({ hands: [[card('5', 'spades')], [card('2', 'hearts')]], discardPile: [card('5', 'hearts')] }),
+      { type: 'play_card', seat: 0, cardId: '5-spades' },
+    );
+    assert.equal(state.status, 'game_over');
+    assert.equal(state.endReason, 'went_out');
+    assert.equal(state.winner, 0);
+  });
+
+  test('drawing the last card when nobody can play is a stalemate, won on fewest points', () => {
+    const state = apply(
+      createTable({ hands: [[card('K', 'clubs')], [card('3', 'spades')]], discardPile: [card('5', 'hearts')], deck: [card('Q', 'diamonds')] }),
+      { type: 'draw_card', seat: 0 },
+    );
+    assert.equal(state.status, 'game_over');
+    assert.equal(state.endReason, 'stalemate');
+    assert.equal(state.winner, 1);
+  });
+
+  test('a stalemate tied on points has no winner', () => {
+    const state = apply(
+      createTable({ hands: [[card('K', 'clubs')], [card('Q', 'spades'), card('J', 'spades')]], discardPile: [card('5', 'hearts')], deck: [card('10', 'diamonds')] }),
+      { type: 'draw_card', seat: 0 },
+    );
+    assert.equal(state.endReason, 'stalemate');
+    assert.equal(state.winner, null);
+  });
+
+  test('passing with nothing left to draw and nothing anyone can play is a stalemate', () => {
+    const state = apply(
+      createTable({ hands: [[card('K', 'clubs')], [card('3', 'spades'), card('4', 'spades')]], discardPile: [card('5', 'hearts')] }),
+      { type: 'pass', seat: 0 },
+    );
+    assert.equal(state.status, 'game_over');
+    assert.equal(state.endReason, 'stalemate');
+    assert.equal(state.winner, 1);
+  });
+});
+
+describe('reshuffling', () => {
+  const under = (['2', '3', '4', '6', '7', '9', '10', 'J', 'Q'] as Rank[]).map(rank => card(rank, 'hearts'));
+  const table = createTable({ hands: [[card('K', 'clubs')], [card('3', 'spades')]], discardPile: [...under, card('5', 'hearts')] });
+  const draw: GameAction = { type: 'draw_card', seat: 0 };
+
+  test('an empty deck takes back all but the top discard, and the reshuffle is logged', () => {
+    const state = apply(table, draw);
+    assert.deepEqual(state.discardPile, [card('5', 'hearts')]);
+    assert.equal(state.reshuffles, 1);
+    assert.deepEqual(state.log.slice(-2).map(e => e.type), ['reshuffle', 'draw']);
+    assert.deepEqual(state.log.at(-2), { type: 'reshuffle', count: under.length });
+    const cards = [...state.deck, ...state.seats[0].hand.slice(1)];
+    assert.deepEqual(cards.map(c => c.id).sort(), under.map(c => c.id).sort());
+  });
+
+  test('the reshuffled order depends only on the seed', () => {
+    assert.deepEqual(apply(table, draw).deck, apply(table, draw).deck);
+    assert.notDeepEqual(apply(table, draw).deck, apply({ ...table, seed: 'other' }, draw).deck);
+  });
+});
+
+describe('rejections', () => {
+  const hands = [[card('5', 'spades'), card('K', 'clubs'), card('K', 'diamonds'), card('8', 'clubs')], [card('2', 'hearts')]];
+  const table = createTable({ hands, discardPile: [card('5', 'hearts')], deck: [card('9', 'spades')] });
+  const play = (cardId: string, extraCardIds?: string[]): GameAction => ({ type: 'play_card', seat: 0, cardId, extraCardIds });
+
+  const cases: { reason: RejectionReason; state: GameState; action: GameAction }[] = [
+    { reason: 'game_over', state: { ...table, status: 'game_over', winner: 1, endReason: 'went_out' }, action: play('5-spades') },
+    { reason: 'not_your_turn', state: table, action: { type: 'draw_card', seat: 1 } },
+    { reason: 'wrong_phase', state: table, action: { type: 'choose_suit', seat: 0, suit: 'hearts' } },
+    { reason: 'card_not_in_hand', state: table, action: play('2-hearts') },
+    { reason: 'illegal_card', state: table, action: play('K-clubs') },
+    { reason: 'penalty_pending', state: { ...table, pendingDraw: 2 }, action: play('5-spades') },
+    {
+      reason: 'eight_cannot_finish',
+      state: createTable({ hands: [[card('8', 'clubs')], [card('2', 'hearts')]], discardPile: [card('5', 'hearts')], rules: { noEightFinish: true } }),
+      action: play('8-clubs'),
+    },
+    { reason: 'deck_empty', state: { ...table, deck: [] }, action: { type: 'draw_card', seat: 0 } },
+    { reason: 'must_draw', state: table, action: { type: 'pass', seat: 0 } },
+    { reason: 'has_playable_card', state: { ...table, rules: { ...table.rules, drawUntilPlayable: true } }, action: { type: 'draw_card', seat: 0 } },
+    { reason: 'has_playable_card', state: { ...table, deck: [] }, action: { type: 'pass', seat: 0 } },
+    { reason: 'multi_card_disabled', state: table, action: play('K-clubs', ['K-diamonds']) },
+    { reason: 'rank_mismatch', state: { ...table, rules: { ...table.rules, multiCardPlay: true } }, action: play('5-spades', ['K-clubs']) },
+  ];
+
+  cases.forEach(({ reason, state, action }) => {
+    test(`${reason}: ${action.type}`, () => {
+      const result = applyAction(state, action);
+      assert.equal(result.ok, false);
+      assert.equal(result.ok === false && result.reason, reason);
+    });
+  });
+
+  test('a rejected move leaves the state alone', () => {
+    const before = JSON.stringify(table);
+    applyAction(table, play('K-clubs'));
+    assert.equal(JSON.stringify(table), before);
+  });
+});
+
+describe('AI turns', () => {
+  test('an Easy AI that draws into a stalemate under drawUntilPlayable stops there', () => {
+    const table = createTable({
+      hands: [[card('K', 'clubs')], [card('3', 'spades')]],
+      discardPile: [card('5', 'hearts')],
+      deck: [card('Q', 'diamonds')],
+      rules: { drawUntilPlayable: true },
+    });
+    const strategy = createStrategy('easy');
+    const action = chooseAiAction(table, strategy);
+    assert.equal(action.type, 'draw_card');
+
+    const next = reduce(table, action);
+    assert.equal(next.endReason, 'stalemate');
+    assert.equal(next.currentSeat, 0);
+    assert.equal(keepsTurn(next, action), false);
+    // With no legal move left it still answers rather than returning nothing
+    assert.deepEqual(chooseAiAction(next, strategy), { type: 'pass', seat: 0 });
+  });
+});
@@ -0,0 +1,301 @@
+import { Card, GameState, GameAction, ActionResult, MoveLogEntry, PlayCard, PlayerConfig, RejectionReason, RuleSet } from './types';
+import { createDeck, shuffle, isValidMove, isWild, getHandPoints, SUITS, MAX_DECKS } from './constants';
+import { createRng, randomSeed } from './random';
+import { DEFAULT_RULES, getDrawPenalty, isSkip, isReverse, isDeckCount } from './rules';
+
+// Headless Crazy Eights rules. Everything here is pure: the UI, the AI and
+// any future server feed actions into `reduce` and render whatever comes out.
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 6;
+
+export const DEFAULT_PLAYERS: PlayerConfig[] = [
+  { name: 'You', kind: 'human' },
+  { name: 'AI', kind: 'ai' },
+];
+
+// 8 cards heads-up, 5 at bigger tables, and never so many that the deck can't turn up a first discard
+export const getHandSize = (seatCount: number, deckSize: number = 52): number =>
+  Math.min(seatCount === 2 ? 8 : 5, Math.floor((deckSize - 1) / seatCount));
+
+export const createInitialState = (
+  seed: string = randomSeed(),
+  rules: RuleSet = DEFAULT_RULES,
+  players: PlayerConfig[] = DEFAULT_PLAYERS,
+  dealer: number = players.length - 1,
+): GameState => ({
+  seed,
+  deck: [],
+  seats: players.map(p => ({ ...p, hand: [] })),
+  discardPile: [],
+  currentSeat: (dealer + 1) % players.length,
+  dealer,
+  status: 'dealing',
+  winner: null,
+  endReason: null,
+  pendingSuitChange: false,
+  currentSuit: null,
+  rules,
+  pendingDraw: 0,
+  direction: 1,
+  reshuffles: 0,
+  log: [],
+});
+
+// The same seed always yields the same deck, hands and first discard
+export const initGame = (
+  seed: string = randomSeed(),
+  rules: RuleSet = DEFAULT_RULES,
+  players: PlayerConfig[] = DEFAULT_PLAYERS,
+  dealer: number = players.length - 1,
+): GameState => {
+  if (players.length < MIN_SEATS || players.length > MAX_SEATS) {
+    throw new RangeError(`Crazy Eights needs ${MIN_SEATS}-${MAX_SEATS} players, got ${players.length}`);
+  }
+  if (!isDeckCount(rules.decks)) {
+    throw new RangeError(`Crazy Eights uses 1-${MAX_DECKS} decks, got ${rules.decks}`);
+  }
+
+  const fullDeck = shuffle(createDeck(rules.decks, rules.jokers), createRng(seed));
+  const handSize = getHandSize(players.length, fullDeck.length);
+  const seats = players.map((p, i) => ({ ...p, hand: fullDeck.slice(i * handSize, (i + 1) * handSize) }));
+  const remainingDeck = fullDeck.slice(players.length * handSize);
+
+  // Find first card that isn't wild for discard pile
+  let firstDiscardIndex = 0;
+  while (firstDiscardIndex < remainingDeck.length - 1 && isWild(remainingDeck[firstDiscardIndex])) {
+    firstDiscardIndex++;
+  }
+
+  const initialDiscard = remainingDeck.splice(firstDiscardIndex, 1);
+
+  return {
+    ...createInitialState(seed, rules, players, dealer),
+    deck: remainingDeck,
+    seats,
+    discardPile: initialDiscard,
+    status: 'playing',
+    log: [{ type: 'deal', dealer, handSize, firstCard: initialDiscard[0] }],
+  };
+};
+
+export const getTopCard = (state: GameState): Card => state.discardPile[state.discardPile.length - 1];
+
+export const getHand = (state: GameState, seat: number): Card[] => state.seats[seat].hand;
+
+const withHand = (state: GameState, seat: number, hand: Card[]): GameState => ({
+  ...state,
+  seats: state.seats.map((s, i) => (i === seat ? { ...s, hand } : s)),
+});
+
+const withLog = (state: GameState, entry: MoveLogEntry): GameState => ({ ...state, log: [...state.log, entry] });
+
+// Cards a player could still draw: the deck plus everything under the top discard
+export const getDrawableCount = (state: GameState): number =>
+  state.deck.length + Math.max(0, state.discardPile.length - 1);
+
+// Once the deck can't cover a draw, all but the top discard is shuffled back in.
+// Each reshuffle gets its own seed so replays stay deterministic.
+const reshuffleIfNeeded = (state: GameState, needed: number): GameState => {
+  if (state.deck.length >= needed || state.discardPile.length <= 1) return state;
+  const reshuffles = state.reshuffles + 1;
+  const rng = createRng(`${state.seed}:reshuffle:${reshuffles}`);
+  const returned = state.discardPile.slice(0, -1);
+  return {
+    ...withLog(state, { type: 'reshuffle', count: returned.length }),
+    deck: [...state.deck, ...shuffle(returned, rng)],
+    discardPile: [getTopCard(state)],
+    reshuffles,
+  };
+};
+
+// Steps past `seat` in the current direction; a skip is two steps
+export const getNextSeat = (state: GameState, seat: number, steps: number = 1): number => {
+  const count = state.seats.length;
+  return (((seat + state.direction * steps) % count) + count) % count;
+};
+
+// `remaining` is how many cards the player would hold afterwards
+const getCardRejection = (state: GameState, card: Card, remaining: number): RejectionReason | null => {
+  const { rules } = state;
+  if (state.pendingDraw > 0) {
+    return rules.stackPenalties && getDrawPenalty(card, rules) > 0 ? null : 'penalty_pending';
+  }
+  if (rules.noEightFinish && card.rank === '8' && remaining === 0) return 'eight_cannot_finish';
+  if (!isValidMove(card, getTopCard(state), state.currentSuit)) return 'illegal_card';
+  return null;
+};
+
+export const isPlayable = (state: GameState, card: Card, seat: number = state.currentSeat): boolean =>
+  getCardRejection(state, card, getHand(state, seat).length - 1) === null;
+
+export const getPlayableCards = (state: GameState, seat: number): Card[] =>
+  getHand(state, seat).filter(c => isPlayable(state, c, seat));
+
+// The cards of a play in the order they go down; missing ones are undefined
+const getPlayCards = (hand: Card[], action: PlayCard): (Card | undefined)[] =>
+  [action.cardId, ...(action.extraCardIds ?? [])].map(id => hand.find(c => c.id === id));
+
+export const getRejection = (state: GameState, action: GameAction): RejectionReason | null => {
+  if (state.status === 'game_over') return 'game_over';
+  if (action.seat !== state.currentSeat) return 'not_your_turn';
+
+  switch (action.type) {
+    case 'play_card': {
+      if (state.status !== 'playing') return 'wrong_phase';
+      const hand = getHand(state, action.seat);
+      const cards = getPlayCards(hand, action);
+      if (cards.length > 1 && !state.rules.multiCardPlay) return 'multi_card_disabled';
+      if (cards.some(c => !c) || new Set(cards).size !== cards.length) return 'card_not_in_hand';
+      if (cards.some(c => c!.rank !== cards[0]!.rank)) return 'rank_mismatch';
+      // Only the first card has to fit; the rest follow it on rank
+      return getCardRejection(state, cards[0]!, hand.length - cards.length);
+    }
+    case 'draw_card':
+      if (state.status !== 'playing') return 'wrong_phase';
+      if (getDrawableCount(state) === 0) return 'deck_empty';
+      if (state.rules.drawUntilPlayable && state.pendingDraw === 0 && getPlayableCards(state, action.seat).length > 0) {
+        return 'has_playable_card';
+      }
+      return null;
+    case 'choose_suit':
+      if (state.status !== 'suit_selection') return 'wrong_phase';
+      return null;
+    case 'pass':
+      if (state.status !== 'playing') return 'wrong_phase';
+      // Passing is only an escape hatch once neither deck nor discard can supply a card,
+      // and never with a card that could be played
+      if (getDrawableCount(state) > 0) return 'must_draw';
+      if (getPlayableCards(state, action.seat).length > 0) return 'has_playable_card';
+      return null;
+  }
+};
+
+const transition = (state: GameState, action: GameAction): GameState => {
+  const next = getNextSeat(state, action.seat);
+
+  switch (action.type) {
+    case 'play_card': {
+      const { rules } = state;
+      const hand = getHand(state, action.seat);
+      const cards = getPlayCards(hand, action) as Card[];
+      const [card, ...extraCards] = cards;
+      const entry: MoveLogEntry = extraCards.length > 0
+        ? { type: 'play', seat: action.seat, card, extraCards }
+        : { type: 'play', seat: action.seat, card };
+      const played = withLog(withHand(state, action.seat, hand.filter(c => !cards.includes(c))), entry);
+      const discardPile = [...state.discardPile, ...cards];
+
+      if (cards.length === hand.length) {
+        return { ...played, discardPile, status: 'game_over', winner: action.seat, endReason: 'went_out' };
+      }
+
+      // Every card in a set takes effect: penalties add up, each skip passes over one more seat
+      // and each reverse flips direction again
+      const reverses = cards.filter(c => isReverse(c, rules)).length;
+      const effected: GameState = {
+        ...played,
+        discardPile,
+        pendingDraw: state.pendingDraw + cards.reduce((sum, c) => sum + getDrawPenalty(c, rules), 0),
+        direction: reverses % 2 === 1 ? (state.direction === 1 ? -1 : 1) : state.direction,
+      };
+
+      if (isWild(card)) {
+        return { ...effected, status: 'suit_selection', pendingSuitChange: true };
+      }
+
+      return {
+        ...effected,
+        currentSeat: getNextSeat(effected, action.seat, 1 + cards.filter(c => isSkip(c, rules)).length),
+        currentSuit: null,
+      };
+    }
+    case 'draw_card': {
+      const stocked = reshuffleIfNeeded(state, Math.max(state.pendingDraw, 1));
+      const hand = getHand(stocked, action.seat);
+
+      if (state.pendingDraw > 0) {
+        const drawn = stocked.deck.slice(0, state.pendingDraw);
+        return {
+          ...withLog(withHand(stocked, action.seat, [...hand, ...drawn]), { type: 'draw', seat: action.seat, count: drawn.length, cards: drawn }),
+          deck: stocked.deck.slice(drawn.length),
+          pendingDraw: 0,
+          currentSeat: next,
+        };
+      }
+
+      const [drawnCard, ...remainingDeck] = stocked.deck;
+      return {
+        ...withLog(withHand(stocked, action.seat, [...hand, drawnCard]), { type: 'draw', seat: action.seat, count: 1, cards: [drawnCard] }),
+        deck: remainingDeck,
+        // Drawing until playable keeps the turn; the player plays or draws again next
+        currentSeat: state.rules.drawUntilPlayable ? action.seat : next,
+      };
+    }
+    case 'choose_suit':
+      return {
+        ...withLog(state, { type: 'choose_suit', seat: action.seat, suit: action.suit }),
+        currentSuit: action.suit,
+        status: 'playing',
+        pendingSuitChange: false,
+        currentSeat: next,
+      };
+    case 'pass':
+      return { ...withLog(state, { type: 'pass', seat: action.seat }), pendingDraw: 0, currentSeat: next };
+  }
+};
+
+// Each card led with the rest of its rank, once per choice of which ends on top.
+// Smaller sets and other orders are legal too but left out to keep searches small.
+const getSetPlays = (hand: Card[], seat: number, lead: Card): GameAction[] => {
+  const rest = hand.filter(c => c.rank === lead.rank && c.id !== lead.id);
+  return rest.map(top => ({
+    type: 'play_card',
+    seat,
+    cardId: lead.id,
+    extraCardIds: [...rest.filter(c => c !== top), top].map(c => c.id),
+  }));
+};
+
+export const getLegalActions = (state: GameState, seat: number): GameAction[] => {
+  const hand = getHand(state, seat);
+  const candidates: GameAction[] = [
+    ...hand.map(c => ({ type: 'play_card', seat, cardId: c.id }) as const),
+    ...(state.rules.multiCardPlay ? hand.flatMap(c => getSetPlays(hand, seat, c)) : []),
+    { type: 'draw_card', seat },
+    { type: 'pass', seat },
+    ...SUITS.map(suit => ({ type: 'choose_suit', seat, suit }) as const),
+  ];
+  return candidates.filter(a => getRejection(state, a) === null);
+};
+
+// Lowest hand points wins a stalemate; a tie for lowest leaves no winner
+export const getStalemateWinner = (state: GameState): number | null => {
+  const points = state.seats.map(s => getHandPoints(s.hand));
+  const best = Math.min(...points);
+  return points.filter(p => p === best).length === 1 ? points.indexOf(best) : null;
+};
+
+// Nothing left to draw and no seat holds a card that fits, even once any penalty lapses
+export const isStalemate = (state: GameState): boolean => {
+  if (state.status !== 'playing' || getDrawableCount(state) > 0) return false;
+  const open = { ...state, pendingDraw: 0 };
+  return state.seats.every((_, seat) => getPlayableCards(open, seat).length === 0);
+};
+
+const settle = (state: GameState): GameState =>
+  isStalemate(state)
+    ? { ...state, status: 'game_over', winner: getStalemateWinner(state), endReason: 'stalemate' }
+    : state;
+
+export const applyAction = (state: GameState, action: GameAction): ActionResult => {
+  const reason = getRejection(state, action);
+  if (reason) return { ok: false, reason };
+  return { ok: true, state: settle(transition(state, action)) };
+};
+
+// Rejected actions leave the state untouched; use `applyAction` to learn why.
+export const reduce = (state: GameState, action: GameAction): GameState => {
+  const result = applyAction(state, action);
+  return result.ok ? result.state : state;
+};
@@ -0,0 +1,58 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameRecord } from './types';
+import { initGame, reduce } from './engine';
+import { t, displayName } from './i18n';
+import { GAME_RECORD_VERSION, createGameRecord, validateGameRecord, restoreGame, parseGameRecord } from './gameRecord';
+
+// A game two moves in: the first seat draws, then the second draws too
+const game = (() => {
+  const dealt = initGame('test');
+  const drawn = reduce(dealt, { type: 'draw_card', seat: dealt.currentSeat });
+  return reduce(drawn, { type: 'draw_card', seat: drawn.currentSeat });
+})();
+
+// A fresh copy of the game's record to tamper with
+const createRecord = (): GameRecord => JSON.parse(JSON.stringify(createGameRecord(game)));
+
+describe('game records', () => {
+  test('a saved game loads back as it was', () => {
+    assert.deepEqual(parseGameRecord(JSON.stringify(createRecord())), game);
+  });
+
+  test('a record from a newer version is refused', () => {
+    const record = { ...createRecord(), version: GAME_RECORD_VERSION + 1 };
+    assert.equal(validateGameRecord(record), t('record.newerVersion', { version: GAME_RECORD_VERSION + 1, supported: GAME_RECORD_VERSION }));
+  });
+
+  test('a move by a seat that is not at the table is refused', () => {
+    const record = createRecord();
+    record.log[1] = { type: 'draw', seat: 5, count: 1, cards: [] };
+    assert.equal(validateGameRecord(record), t('record.badLogEntry', { index: 1 }));
+  });
+
+  test('a dealer who is not at the table is refused', () => {
+    assert.equal(validateGameRecord({ ...createRecord(), dealer: 2 }), t('record.badDealer'));
+  });
+
+  test('an illegal move stops the replay', () => {
+    const record = createRecord();
+    const seat = game.currentSeat;
+    // The next seat passes without drawing first
+    record.log.push({ type: 'pass', seat });
+    assert.equal(validateGameRecord(record), null);
+    assert.throws(() => restoreGame(record), {
+      message: t('record.illegalMove', { move: 3, name: displayName(record.players[seat].name), reason: t('rejection.must_draw') }),
+    });
+  });
+
+  test('a log that does not replay exactly is refused as edited', () => {
+    const record = createRecord();
+    const [, first, second] = record.log;
+    assert.ok(first.type === 'draw' && second.type === 'draw');
+    // The first draw claims the card the second one drew
+    first.cards = second.cards;
+    assert.equal(validateGameRecord(record), null);
+    assert.throws(() => restoreGame(record), { message: t('record.edited') });
+  });
+});
@@ -0,0 +1,139 @@
+import { GameRecord, GameState, Suit } from './types';
+import { SUITS } from './constants';
+import { DEFAULT_RULES, RULE_OPTIONS, isDeckCount } from './rules';
+import { AI_DIFFICULTIES } from './ai';
+import { MIN_SEATS, MAX_SEATS, initGame, applyAction } from './engine';
+import { getLogActions } from './history';
+import { t, displayName } from './i18n';
+
+// Saving, sharing and restoring games. Both the autosave and exported files use the
+// same versioned GameRecord; loading one replays it from the seed and refuses anything
+// that doesn't come out exactly as recorded. Errors are in the player's language; the
+// server never switches locale, so its responses stay in English.
+
+export const GAME_RECORD_FORMAT = 'crazy-eights-game';
+export const GAME_RECORD_VERSION = 1;
+
+const STORAGE_KEY = 'crazy-eights:saved-game';
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const createGameRecord = (state: GameState): GameRecord => ({
+  format: GAME_RECORD_FORMAT,
+  version: GAME_RECORD_VERSION,
+  savedAt: new Date().toISOString(),
+  seed: state.seed,
+  rules: state.rules,
+  players: state.seats.map(({ hand, ...player }) => player),
+  dealer: state.dealer,
+  log: state.log,
+});
+
+// Parsed JSON before it's known to be an object
+type Fields = Record<string, unknown> | null;
+
+const isCard = (value: unknown): boolean => typeof (value as Fields)?.id === 'string';
+
+// Returns an error message, or null when `body` is shaped like a GameRecord
+export const validateGameRecord = (body: unknown): string | null => {
+  if (!body || typeof body !== 'object') return t('record.notAFile');
+  const record = body as Record<string, unknown>;
+  if (record.format !== GAME_RECORD_FORMAT) return t('record.wrongFormat');
+  const version = record.version;
+  if (!isCount(version)) return t('record.noVersion');
+  if (version > GAME_RECORD_VERSION) return t('record.newerVersion', { version, supported: GAME_RECORD_VERSION });
+  if (version < 1) return t('record.oldVersion', { version });
+  if (typeof record.seed !== 'string' || !record.seed) return t('record.badSeed');
+  // Rules added after a file was saved are missing from it and stay off
+  const rules = record.rules as Fields;
+  if (!rules || typeof rules !== 'object' || RULE_OPTIONS.some(o => rules[o.key] !== undefined && typeof rules[o.key] !== 'boolean')) {
+    return t('record.badRules');
+  }
+  if (rules.decks !== undefined && !isDeckCount(rules.decks)) return t('record.badDecks');
+  const players = record.players;
+  if (!Array.isArray(players) || players.length < MIN_SEATS || players.length > MAX_SEATS) {
+    return t('record.badPlayers', { min: MIN_SEATS, max: MAX_SEATS });
+  }
+  for (const p of players as Fields[]) {
+    if (typeof p?.name !== 'string' || !p.name) return t('record.noName');
+    if (p.kind !== 'human' && p.kind !== 'ai') return t('record.badKind');
+    if (p.difficulty !== undefined && !AI_DIFFICULTIES.some(d => d.key === p.difficulty)) return t('record.badDifficulty', { difficulty: String(p.difficulty) });
+  }
+  const isSeat = (seat: unknown) => isCount(seat) && seat < players.length;
+  if (!isSeat(record.dealer)) return t('record.badDealer');
+  if (!Array.isArray(record.log)) return t('record.badLog');
+  for (const [i, entry] of (record.log as Fields[]).entries()) {
+    const valid = (() => {
+      switch (entry?.type) {
+        case 'deal': case 'reshuffle': return true;
+        case 'play': return isSeat(entry.seat) && isCard(entry.card)
+          && (entry.extraCards === undefined || (Array.isArray(entry.extraCards) && entry.extraCards.every(isCard)));
+        case 'draw': case 'pass': return isSeat(entry.seat);
+        case 'choose_suit': return isSeat(entry.seat) && SUITS.includes(entry.suit as Suit);
+        default: return false;
+      }
+    })();
+    if (!valid) return t('record.badLogEntry', { index: i });
+  }
+  return null;
+};
+
+// Replays a validated record from its seed. Throws if any move is illegal or the
+// replayed log differs from the recorded one, which means the file was edited.
+export const restoreGame = (record: GameRecord): GameState => {
+  let state = initGame(record.seed, { ...DEFAULT_RULES, ...record.rules }, record.players, record.dealer);
+  getLogActions(record.log).forEach((action, i) => {
+    const result = applyAction(state, action);
+    if (result.ok === false) {
+      throw new Error(t('record.illegalMove', { move: i + 1, name: displayName(record.players[action.seat].name), reason: t(`rejection.${result.reason}`) }));
+    }
+    state = result.state;
+  });
+  if (JSON.stringify(state.log) !== JSON.stringify(record.log)) {
+    throw new Error(t('record.edited'));
+  }
+  return state;
+};
+
+export const parseGameRecord = (text: string): GameState => {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error(t('record.notJson'));
+  }
+  const error = validateGameRecord(body);
+  if (error) throw new Error(error);
+  return restoreGame(body as GameRecord);
+};
+
+export const downloadGameRecord = (state: GameState) => {
+  const blob = new Blob([JSON.stringify(createGameRecord(state), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `crazy-eights-${state.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Autosave ---
+
+export const saveToStorage = (state: GameState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(createGameRecord(state)));
+};
+
+export const clearStorage = () => localStorage.removeItem(STORAGE_KEY);
+
+// A save that no longer loads (older format, corrupted) is dropped rather than retried
+export const loadFromStorage = (): GameState | null => {
+  const text = localStorage.getItem(STORAGE_KEY);
+  if (!text) return null;
+  try {
+    return parseGameRecord(text);
+  } catch (error) {
+    console.warn('Discarding saved game:', (error as Error).message);
+    clearStorage();
+    return null;
+  }
+};
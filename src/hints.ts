@@ -0,0 +1,126 @@
+import { Card, GameAction, PlayerView, RejectionReason, Suit } from './types';
+import { SUIT_SYMBOLS, getCardPoints, isWild } from './constants';
+import { getDrawPenalty, isSkip } from './rules';
+import { cardLabel } from './history';
+import { getPlays, getPlayedCards, getFallbackAction, countSuits, getNextSeat } from './ai/helpers';
+import { t, rankName, suitName } from './i18n';
+
+// Player-facing help that runs entirely in the browser: why a card can't be played, and
+// a ranking of the legal moves from a simple heuristic. Both read only the player's view.
+
+export interface Hint {
+  action: GameAction;
+  reasons: string[]; // Short, already translated
+}
+
+const suitLabel = (suit: Suit) => `${SUIT_SYMBOLS[suit]} ${suitName(suit)}`;
+
+// Why a play was refused, pointing at the card on the pile where that's the reason
+export const explainRejection = (view: PlayerView, reason: RejectionReason): string => {
+  switch (reason) {
+    case 'illegal_card':
+      return view.currentSuit
+        ? t('explain.calledSuit', { suit: suitLabel(view.currentSuit), card: rankName(view.topCard.rank) })
+        : t('explain.noMatch', { card: cardLabel(view.topCard) });
+    case 'penalty_pending':
+      return t(view.rules.stackPenalties ? 'explain.stackOnly' : 'explain.mustDraw', { count: view.pendingDraw });
+    default:
+      return t('explain.other', { reason: t(`rejection.${reason}`) });
+  }
+};
+
+// A seat that drew instead of following a suit probably holds none of it, until it's seen
+// playing one. Penalty draws say nothing, so a draw straight after a penalty card is ignored.
+export const getLikelyVoids = (view: PlayerView): Set<Suit>[] => {
+  const voids = view.handCounts.map(() => new Set<Suit>());
+  let suit: Suit | null = null;
+  let penalty = false;
+  view.log.forEach((entry) => {
+    switch (entry.type) {
+      case 'deal':
+        suit = entry.firstCard.suit;
+        break;
+      case 'play': {
+        const cards = [entry.card, ...(entry.extraCards ?? [])];
+        cards.forEach(c => c.suit && voids[entry.seat].delete(c.suit));
+        suit = cards[cards.length - 1].suit;
+        penalty = cards.some(c => getDrawPenalty(c, view.rules) > 0);
+        break;
+      }
+      case 'choose_suit':
+        suit = entry.suit;
+        break;
+      case 'draw':
+        if (!penalty && suit) voids[entry.seat].add(suit);
+        penalty = false;
+        break;
+    }
+  });
+  voids[view.seat].clear();
+  return voids;
+};
+
+// Higher is better. Mirrors the Hard AI's priorities, but says why.
+const ratePlay = (view: PlayerView, cards: Card[], voids: Set<Suit>[], onlyWilds: boolean) => {
+  const rest = view.hand.filter(c => !cards.includes(c));
+  if (rest.length === 0) return { score: Infinity, reasons: [t('hint.goesOut')] };
+
+  const reasons: string[] = [];
+  let score = 0;
+  const top = cards[cards.length - 1];
+  const wilds = rest.filter(isWild);
+  if (isWild(cards[0])) {
+    if (!onlyWilds) {
+      score -= 15;
+      reasons.push(t('hint.spendsWild', { card: rankName(cards[0].rank) }));
+    }
+  } else if (wilds.length > 0) {
+    reasons.push(t('hint.keepsWild', { card: rankName(wilds[0].rank) }));
+  }
+
+  const points = cards.reduce((sum, c) => sum + getCardPoints(c), 0);
+  score += points * 0.5;
+  if (points >= 10) reasons.push(t('hint.dumpsPoints', { points }));
+  if (cards.length > 1) {
+    score += (cards.length - 1) * 4;
+    reasons.push(t('hint.sheds', { count: cards.length }));
+  }
+
+  // A joker has no suit; the one named after it is chosen separately
+  const next = getNextSeat(view);
+  if (top.suit) {
+    const following = countSuits(rest)[top.suit];
+    score += following * 3;
+    if (following > 0) reasons.push(t('hint.keepsSuit', { count: following, suit: suitLabel(top.suit) }));
+    if (voids[next].has(top.suit)) {
+      score += 6;
+      reasons.push(t('hint.targetsVoid', { suit: suitLabel(top.suit) }));
+    }
+  }
+  if (view.handCounts[next] <= 2 && cards.some(c => getDrawPenalty(c, view.rules) > 0 || isSkip(c, view.rules))) {
+    score += 10;
+    reasons.push(t('hint.slows', { count: view.handCounts[next] }));
+  }
+  return { score, reasons };
+};
+
+// The viewer's legal moves, best first
+export const getHints = (view: PlayerView): Hint[] => {
+  const voids = getLikelyVoids(view);
+  const plays = getPlays(view).map(action => ({ action, cards: getPlayedCards(view, action) }));
+  const onlyWilds = plays.every(p => isWild(p.cards[0]));
+  const rated = plays.map(({ action, cards }) => ({ action: action as GameAction, ...ratePlay(view, cards, voids, onlyWilds) }));
+
+  const fallback = getFallbackAction(view);
+  if (plays.length === 0) {
+    rated.push({
+      action: fallback,
+      score: 0,
+      reasons: [view.pendingDraw > 0 ? t('hint.takePenalty', { count: view.pendingDraw }) : t('hint.nothingFits')],
+    });
+  } else if (onlyWilds && fallback.type === 'draw_card' && view.pendingDraw === 0) {
+    // Drawing is worth weighing against spending the only wild card
+    rated.push({ action: fallback, score: view.hand.length > 2 ? 20 : -20, reasons: [t('hint.saveWild')] });
+  }
+  return rated.sort((a, b) => b.score - a.score).map(({ action, reasons }) => ({ action, reasons }));
+};
@@ -0,0 +1,66 @@
+import { Card, GameAction, GameState, MoveLogEntry, PlayerConfig, Seat } from './types';
+import { SUIT_SYMBOLS } from './constants';
+import { initGame, reduce } from './engine';
+import { t, displayName, suitName } from './i18n';
+
+// The move log doubles as a replay script: the seed re-deals the same game and the
+// player actions in the log drive it forward. Deals and reshuffles follow from those.
+
+export const getLogActions = (log: MoveLogEntry[]): GameAction[] =>
+  log.flatMap((entry): GameAction[] => {
+    switch (entry.type) {
+      case 'play': return [entry.extraCards
+        ? { type: 'play_card', seat: entry.seat, cardId: entry.card.id, extraCardIds: entry.extraCards.map(c => c.id) }
+        : { type: 'play_card', seat: entry.seat, cardId: entry.card.id }];
+      case 'draw': return [{ type: 'draw_card', seat: entry.seat }];
+      case 'choose_suit': return [{ type: 'choose_suit', seat: entry.seat, suit: entry.suit }];
+      case 'pass': return [{ type: 'pass', seat: entry.seat }];
+      default: return [];
+    }
+  });
+
+const getPlayers = (state: GameState): PlayerConfig[] => state.seats.map(({ hand, ...player }) => player);
+
+const replay = (state: GameState, actions: GameAction[]): GameState[] => {
+  const frames = [initGame(state.seed, state.rules, getPlayers(state), state.dealer)];
+  actions.forEach(action => frames.push(reduce(frames[frames.length - 1], action)));
+  return frames;
+};
+
+// The state after each action, starting from the deal
+export const getReplayFrames = (state: GameState): GameState[] => replay(state, getLogActions(state.log));
+
+// Rewinds to the start of `seat`'s latest turn, taking back any moves made since.
+// Null when that seat hasn't acted yet.
+export const undoLastTurn = (state: GameState, seat: number): GameState | null => {
+  const actions = getLogActions(state.log);
+  let start = actions.map(a => a.seat).lastIndexOf(seat);
+  if (start === -1) return null;
+  // A turn can span several actions: draws until playable, or an 8 and its suit
+  while (start > 0 && actions[start - 1].seat === seat) start--;
+  const frames = replay(state, actions.slice(0, start));
+  return frames[frames.length - 1];
+};
+
+export const cardLabel = (card: Card) => (card.suit ? `${card.rank}${SUIT_SYMBOLS[card.suit]}` : '🃏');
+
+// `revealSeat` may see its own drawn cards; everyone else's draws stay face down
+export const describeLogEntry = (entry: MoveLogEntry, seats: Seat[], revealSeat: number | null): string => {
+  switch (entry.type) {
+    case 'deal':
+      return t('history.deal', { name: displayName(seats[entry.dealer].name), count: entry.handSize, card: cardLabel(entry.firstCard) });
+    case 'play':
+      return t('history.play', { name: displayName(seats[entry.seat].name), card: [entry.card, ...(entry.extraCards ?? [])].map(cardLabel).join(' ') });
+    case 'draw': {
+      const name = displayName(seats[entry.seat].name);
+      if (entry.cards && entry.seat === revealSeat) return t('history.drewCards', { name, cards: entry.cards.map(cardLabel).join(' ') });
+      return entry.count === 1 ? t('history.drewOne', { name }) : t('history.drewMany', { name, count: entry.count });
+    }
+    case 'choose_suit':
+      return t('history.chooseSuit', { name: displayName(seats[entry.seat].name), suit: `${SUIT_SYMBOLS[entry.suit]} ${suitName(entry.suit)}` });
+    case 'pass':
+      return t('history.pass', { name: displayName(seats[entry.seat].name) });
+    case 'reshuffle':
+      return t('history.reshuffle', { count: entry.count });
+  }
+};
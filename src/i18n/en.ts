@@ -0,0 +1,420 @@
+// English messages, and the source of truth for message keys. `{name}` placeholders
+// are filled in by `t`, which checks at compile time that every one is supplied.
+
+export const en = {
+  'app.title': "Tina's Crazy Eights",
+  'app.language': 'Language',
+  'sentence.separator': ' ',
+  'list.separator': ', ',
+
+  'suit.hearts': 'hearts',
+  'suit.diamonds': 'diamonds',
+  'suit.clubs': 'clubs',
+  'suit.spades': 'spades',
+  'rank.A': 'Ace',
+  'rank.J': 'Jack',
+  'rank.Q': 'Queen',
+  'rank.K': 'King',
+  'rank.Joker': 'Joker',
+  'card.name': '{rank} of {suit}',
+  'card.playable': '{card}, playable',
+  'card.notPlayable': '{card}, not playable',
+  'card.picked': '{card}, picked {position}',
+
+  'player.you': 'You',
+  'player.ai': 'AI',
+  'player.human': 'Player {number}',
+  'player.aiNumbered': 'AI {number}',
+
+  'difficulty.easy': 'Easy',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+  'difficulty.expert': 'Expert',
+
+  'rules.wild': '8 is Wild',
+  'rules.match': 'Match Suit or Rank',
+  'rules.decks': '{count} Decks',
+  'rules.alwaysWild': '8 is always wild.',
+  'rules.drawTwo.label': '2 Draws Two',
+  'rules.drawTwo.description': 'The next player draws two cards.',
+  'rules.stackPenalties.label': 'Stack Draws',
+  'rules.stackPenalties.description': 'Answer a draw card with another to pass the penalty on.',
+  'rules.queenOfSpadesDrawFive.label': 'Q♠ Draws Five',
+  'rules.queenOfSpadesDrawFive.description': 'The Queen of spades makes the next player draw five.',
+  'rules.jackSkips.label': 'J Skips',
+  'rules.jackSkips.description': 'A Jack skips the next player.',
+  'rules.aceReverses.label': 'A Reverses',
+  'rules.aceReverses.description': 'An Ace reverses the direction of play.',
+  'rules.drawUntilPlayable.label': 'Draw Until Playable',
+  'rules.drawUntilPlayable.description': 'Keep drawing until you can play instead of drawing one and passing.',
+  'rules.noEightFinish.label': 'No 8 Finish',
+  'rules.noEightFinish.description': 'An 8 cannot be your last card.',
+  'rules.multiCardPlay.label': 'Play Sets',
+  'rules.multiCardPlay.description': 'Lay down several cards of the same rank at once; the last one sets the suit.',
+  'rules.jokers.label': 'Jokers Draw Four',
+  'rules.jokers.description': 'Adds two jokers per deck. They are wild and make the next player draw four.',
+
+  'rejection.game_over': 'the game is over',
+  'rejection.not_your_turn': "it isn't your turn",
+  'rejection.wrong_phase': "that can't be done right now",
+  'rejection.card_not_in_hand': "that card isn't in your hand",
+  'rejection.illegal_card': "that card doesn't match",
+  'rejection.penalty_pending': 'a draw penalty is pending',
+  'rejection.eight_cannot_finish': "an 8 can't be your last card",
+  'rejection.deck_empty': 'there is nothing left to draw',
+  'rejection.must_draw': 'you must draw before passing',
+  'rejection.has_playable_card': 'you have a card you can play',
+  'rejection.multi_card_disabled': 'only one card can be played at a time',
+  'rejection.rank_mismatch': 'cards played together must share a rank',
+
+  'status.welcome': "Welcome to Tina's Crazy Eights! Match the suit or rank.",
+  'status.welcomeBack': 'Welcome back! Your game was restored. {turn}',
+  'status.dealt': '{turn} Match the suit or rank.',
+  'status.thinking': '{name} is thinking...',
+  'status.yourTurn': 'Your turn.',
+  'status.playerTurn': "{name}'s turn.",
+  'status.undone': 'Move taken back. {turn}',
+  'status.loaded': 'Loaded game {seed}. {turn}',
+  'status.loadedFinished': 'Loaded game {seed}. The game is over.',
+  'status.loadFailed': "Couldn't load that file: {error}",
+  'record.notJson': 'the file is not valid JSON.',
+  'record.notAFile': 'this is not a game file.',
+  'record.wrongFormat': 'this is not a Crazy Eights game file.',
+  'record.noVersion': 'the file has no version.',
+  'record.newerVersion': 'the file is version {version}, but this game reads up to version {supported}. Update the game to open it.',
+  'record.oldVersion': 'version {version} files are not supported.',
+  'record.badSeed': 'the seed is missing.',
+  'record.badRules': 'the house rules are unreadable.',
+  'record.badDecks': 'the deck count is not supported.',
+  'record.badPlayers': 'games need {min}-{max} players.',
+  'record.noName': 'every player needs a name.',
+  'record.badKind': 'every player must be a human or an AI.',
+  'record.badDifficulty': 'unknown AI difficulty "{difficulty}".',
+  'record.badDealer': 'the dealer is not one of the players.',
+  'record.badLog': 'the list of moves is missing.',
+  'record.badLogEntry': 'entry {index} in the list of moves is malformed.',
+  'record.illegalMove': 'move {move} by {name} is not legal: {reason}.',
+  'record.edited': "the moves don't match the deal for this seed. The file may have been edited.",
+  'status.rejected': 'Move rejected: {reason}',
+  'status.timeUp': "Time's up for {name}!",
+
+  'action.crazyEight': 'Crazy 8! Choose a new suit.',
+  'action.joker': 'Joker! Choose a new suit.',
+  'action.played': '{name} played {card}.',
+  'action.reverse': 'Play reverses!',
+  'action.skipped': '{name} is skipped!',
+  'action.penaltyPending': 'Draw {count} pending!',
+  'action.reshuffled': 'Discard pile reshuffled into the deck.',
+  'action.drewCards': '{name} drew {count} cards.',
+  'action.drewCard': '{name} drew {card}.',
+  'action.drewHidden': '{name} drew a card.',
+  'action.drewAndPassed': '{name} had no moves and drew a card.',
+  'action.suitChanged': 'Suit changed to {suit}.',
+  'action.aiSuitChanged': '{name} played an 8 and changed suit to {suit}!',
+  'action.aiJokerSuitChanged': '{name} played a joker and changed suit to {suit}!',
+  'action.passed': '{name} had no moves and nothing to draw.',
+
+  'header.seed': 'Seed for this deal — add ?seed= to the URL to replay it',
+  'header.tableCode': 'Online table code',
+  'header.export': 'Export this game to a file',
+  'header.import': 'Load a game file',
+  'header.history': 'Move history',
+  'header.highContrast': 'High contrast',
+  'header.mute': 'Mute sounds',
+  'header.unmute': 'Turn sounds on',
+  'header.coach': 'Coach',
+  'header.tracker': 'Card counter',
+  'header.stats': 'Statistics',
+  'header.daily': 'Daily Challenge',
+  'header.tournaments': 'Tournaments',
+  'header.online': 'Play online',
+  'header.setup': 'Game setup',
+  'header.restart': 'Restart',
+
+  'match.round': 'Round {round} • First to {target}',
+  'match.dealer': 'Dealer',
+
+  'table.away': 'away',
+  'table.awayHint': 'Disconnected; the AI plays for them after a short grace period',
+  'table.winEstimate': "Expert's own win estimate",
+  'table.drawPile': 'Draw Pile',
+  'table.discardPile': 'Discard Pile',
+  'table.reshuffle': 'RESHUFFLE',
+  'table.empty': 'EMPTY',
+  'table.drawPileLabel': 'Draw pile, {count} cards',
+  'table.drawPileReshuffles': 'Draw pile is empty, drawing reshuffles the discards',
+  'table.drawPileEmpty': 'Draw pile is empty',
+  'table.topCard': 'Top card, {card}',
+  'table.topCardSuit': 'Top card, {card}. Suit called: {suit}',
+  'table.handsHidden': 'Hands Hidden',
+  'table.yourHand': 'Your Hand ({count})',
+  'table.playerHand': "{name}'s Hand ({count})",
+  'table.handLabel': 'Your hand. Arrow keys move between cards, Enter plays, D draws.',
+  'table.clockwise': 'Clockwise',
+  'table.counterClockwise': 'Counter-clockwise',
+  'table.undo': 'Undo',
+  'table.undoHint': 'Take back your last turn',
+  'table.hint': 'Hint',
+  'table.hintHint': 'Rank your moves',
+  'table.hints': 'Suggested moves',
+  'table.drawPenalty': 'Draw {count}',
+  'table.pass': 'Pass',
+  'table.drawCard': 'Draw Card',
+  'table.playSet': 'Play {count}',
+  'table.playSetHint': 'Cards go down in the order you picked them; the last one ends on top',
+  'table.clearPicks': 'Clear',
+  'table.turnTimer': 'Time left this turn',
+  'table.clock': "{name}'s clock",
+
+  'handoff.title': 'Pass to {name}',
+  'handoff.reveal': "I'm {name} — Show My Hand",
+
+  'suitPicker.title': 'Crazy 8!',
+  'suitPicker.jokerTitle': 'Joker!',
+  'suitPicker.prompt': 'Choose the new suit to play (keys 1–4)',
+
+  'gameOver.matchWinnerYou': 'You Win the Match!',
+  'gameOver.matchWinner': '{name} Wins the Match!',
+  'gameOver.stalemate': 'Stalemate!',
+  'gameOver.won': '{name} Won!',
+  'gameOver.stalemateYouWin': 'Nobody can move. You win with the fewest points left.',
+  'gameOver.stalemateWinner': 'Nobody can move. {name} wins with the fewest points left.',
+  'gameOver.stalemateDraw': "Nobody can move and the lowest hands are tied. It's a draw.",
+  'gameOver.youWentOut': 'Incredible strategy! You cleared all your cards.',
+  'gameOver.humanWentOut': 'Incredible strategy! {name} cleared all their cards.',
+  'gameOver.aiWentOut': 'Better luck next time! The AI was too fast.',
+  'gameOver.player': 'Player',
+  'gameOver.left': 'Left',
+  'gameOver.round': 'Round',
+  'gameOver.total': 'Total',
+  'gameOver.nextRound': 'Next Round',
+  'gameOver.newMatch': 'New Match',
+  'gameOver.playAgain': 'Play Again',
+  'gameOver.replay': 'Watch Replay',
+
+  'setup.title': 'Game Setup',
+  'setup.applyNote': 'Changes apply from the next game.',
+  'setup.seats': 'Seats ({count})',
+  'setup.toggleKind': 'Switch between human and AI',
+  'setup.match': 'Match',
+  'setup.single': 'Single',
+  'setup.target': 'To {target}',
+  'setup.expertBudget': 'Expert Budget',
+  'setup.thinkTime': 'Think time (ms)',
+  'setup.iterations': 'Max iterations',
+  'setup.houseRules': 'House Rules',
+  'setup.decks': 'Decks',
+  'setup.decksHint': 'More decks keep big tables from running dry.',
+  'setup.pace': 'Pace',
+  'setup.paceHint': 'Timers apply to local games only. When time runs out you draw a card, or a move is made for you.',
+  'setup.turnTimer': 'Turn timer',
+  'setup.speedClock': 'Speed clock (whole game)',
+  'setup.aiDelay': 'AI speed',
+  'setup.off': 'Off',
+  'setup.seconds': '{count}s',
+  'setup.minutes': '{count} min',
+  'aiDelay.instant': 'Instant',
+  'aiDelay.fast': 'Fast',
+  'aiDelay.normal': 'Normal',
+  'aiDelay.slow': 'Slow',
+  'setup.appearance': 'Appearance',
+  'setup.appearanceHint': 'Changes show straight away and are saved on this device.',
+  'setup.theme': 'Theme',
+  'setup.cardBack': 'Card back',
+  'setup.uploadCardBack': 'Upload image',
+  'setup.removeCardBack': 'Use theme back',
+  'setup.uploadFailed': 'That image could not be used. Try a smaller picture.',
+  'theme.classic': 'Classic',
+  'theme.dark': 'Dark',
+  'theme.four_color': 'Four-colour',
+  'theme.large_print': 'Large print',
+  'setup.soundAndMotion': 'Sound & Motion',
+  'setup.reducedMotionHint': 'Cards stay still while your device asks for reduced motion, whatever the speed.',
+  'setup.volume': 'Sound effects',
+  'setup.haptics': 'Vibrate on your turn',
+  'setup.on': 'On',
+  'setup.animationSpeed': 'Animation speed',
+  'volume.low': 'Low',
+  'volume.medium': 'Medium',
+  'volume.high': 'High',
+  'animationSpeed.off': 'Off',
+  'animationSpeed.fast': 'Fast',
+  'animationSpeed.normal': 'Normal',
+  'animationSpeed.slow': 'Slow',
+  'setup.apply': 'New Game with These Settings',
+
+  'stats.title': 'Statistics',
+  'stats.offline': "Couldn't reach the stats server. Start it with `npm run server`.",
+  'stats.loading': 'Loading…',
+  'stats.empty': 'No finished games yet.',
+  'stats.player': 'Player',
+  'stats.games': 'Games',
+  'stats.winRate': 'Win %',
+  'stats.streak': 'Streak',
+  'stats.best': 'Best',
+  'stats.averageScore': 'Avg Score',
+  'stats.favoriteSuit': 'Fav. Suit',
+
+  'tournament.title': 'Tournaments',
+  'tournament.intro': 'Round robins and knockouts for everyone sharing this device. Each pairing is a match, and tournaments are saved in this browser until you delete them.',
+  'tournament.empty': 'No tournaments yet.',
+  'tournament.all': 'All tournaments',
+  'tournament.new': 'New Tournament',
+  'tournament.name': 'Name',
+  'tournament.defaultName': 'Tournament {number}',
+  'tournament.format': 'Format',
+  'tournament.format.round_robin': 'Round robin',
+  'tournament.format.single_elimination': 'Knockout',
+  'tournament.target': 'Each match to',
+  'tournament.points': '{target} points',
+  'tournament.entrants': 'Players ({count})',
+  'tournament.entrantHint': '{min} to {max} players.',
+  'tournament.playerName': 'Player name',
+  'tournament.difficulty': 'AI difficulty',
+  'tournament.addHuman': 'Add player',
+  'tournament.addAi': 'Add AI',
+  'tournament.remove': 'Remove {name}',
+  'tournament.cancel': 'Cancel',
+  'tournament.create': 'Create Tournament',
+  'tournament.delete': 'Delete {name}',
+  'tournament.progress': '{done} of {total} matches played',
+  'tournament.champion': 'Champion: {name}',
+  'tournament.standings': 'Standings',
+  'tournament.tiebreak': 'Ranked by matches won, then total points, then head-to-head results.',
+  'tournament.played': 'P',
+  'tournament.won': 'W',
+  'tournament.lost': 'L',
+  'tournament.pointsShort': 'Pts',
+  'tournament.round': 'Round {round}',
+  'tournament.final': 'Final',
+  'tournament.vs': 'vs',
+  'tournament.bye': '{name} has a bye',
+  'tournament.play': 'Play',
+  'tournament.continue': 'Continue',
+  'tournament.resume': 'Resume',
+  'tournament.simulate': 'Simulate',
+  'tournament.back': 'Back to Tournament',
+
+  'daily.title': 'Daily Challenge',
+  'daily.intro': 'Everyone gets the same deal each day, heads-up against the Hard AI. You get one attempt; a new deal arrives at midnight UTC.',
+  'daily.today': 'Challenge for {date}',
+  'daily.name': 'Your name on the leaderboard',
+  'daily.play': "Play today's challenge",
+  'daily.resume': 'Resume',
+  'daily.played': "You've played today's challenge. Come back tomorrow for a new deal.",
+  'daily.leaderboard': "Today's leaderboard",
+  'daily.history': 'Past challenges',
+  'daily.player': 'Player',
+  'daily.result': 'Result',
+  'daily.moves': 'Moves',
+  'daily.opponentCards': 'AI cards left',
+  'daily.won': 'Won',
+  'daily.lost': 'Lost',
+  'daily.empty': "Nobody has finished today's challenge yet.",
+  'daily.noHistory': 'No past challenges yet.',
+  'daily.summary': '{players} played, {winners} won',
+  'daily.entry': '#{rank}: {result} in {moves} moves',
+  'daily.notPlayed': 'Not played',
+  'daily.offline': "Couldn't reach the leaderboard. Start it with `npm run server`.",
+  'daily.started': 'Daily Challenge for {date}. No undo, and this is your only attempt.',
+  'daily.ranked': 'Daily Challenge recorded: you placed #{rank}.',
+  'daily.notRecorded': "Your Daily Challenge result wasn't recorded: {error}",
+  'daily.noImport': 'Only a finished Daily Challenge can be loaded from a file.',
+
+  'history.title': 'History',
+  'history.deal': '{name} dealt {count} each, turning up {card}',
+  'history.play': '{name} played {card}',
+  'history.drewCards': '{name} drew {cards}',
+  'history.drewOne': '{name} drew a card',
+  'history.drewMany': '{name} drew {count} cards',
+  'history.chooseSuit': '{name} called {suit}',
+  'history.pass': '{name} passed',
+  'history.reshuffle': '{count} cards reshuffled into the deck',
+
+  'replay.title': 'Replay',
+  'replay.progress': 'Seed {seed} • Move {step} of {last}',
+  'replay.winner': 'Winner',
+  'replay.top': 'Top',
+  'replay.first': 'First move',
+  'replay.back': 'Back',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.forward': 'Forward',
+  'replay.last': 'Last move',
+
+  'coach.title': 'Coach',
+  'coach.checking': 'Checking for the coach…',
+  'coach.unavailable': 'The coach is unavailable. It needs the local server (`npm run server`) with GEMINI_API_KEY set.',
+  'coach.waitForTurn': 'Wait for your turn',
+  'coach.suggest': 'Suggest a Move',
+  'coach.review': 'Review This Game',
+  'coach.thinking': 'Thinking…',
+  'coach.noPick': 'No clear pick',
+  'coach.play': 'Play {card}',
+  'coach.playAny': 'Play a card',
+  'coach.callSuit': 'Call {suit}',
+  'coach.draw': 'Draw a card',
+  'coach.drawPenalty': 'Draw {count}',
+  'coach.pass': 'Pass',
+
+  'explain.calledSuit': 'Must match {suit}, chosen by the {card}.',
+  'explain.noMatch': "Doesn't match the suit or rank of {card}.",
+  'explain.stackOnly': 'Only a penalty card can go on the +{count}; otherwise draw.',
+  'explain.mustDraw': 'Draw the {count}-card penalty first.',
+  'explain.other': "You can't play that: {reason}.",
+
+  'hint.goesOut': 'goes out and wins',
+  'hint.keepsWild': 'keeps your {card} for later',
+  'hint.spendsWild': 'spends a {card} you could save',
+  'hint.dumpsPoints': 'sheds {points} points',
+  'hint.sheds': 'gets rid of {count} cards at once',
+  'hint.keepsSuit': 'you still hold {count} {suit}',
+  'hint.targetsVoid': 'the next player seems to be out of {suit}',
+  'hint.slows': 'holds up the next player, who has {count} left',
+  'hint.nothingFits': 'nothing in your hand fits',
+  'hint.takePenalty': 'nothing can be stacked on the +{count}',
+  'hint.saveWild': 'keeps your wild card for when you need it',
+
+  'tracker.title': 'Card Counter',
+  'tracker.hidden': 'Shows what you have seen while your hand is showing.',
+  'tracker.unseen': '{count} cards unseen: not in your hand or on the discard pile.',
+  'tracker.jokers': '{count} unseen',
+  'tracker.voids': 'Likely out of',
+  'tracker.noVoids': 'nothing known',
+  'tracker.drawOdds': 'Next draw playable',
+  'tracker.fromDeck': 'Assumes any unseen card could be on top of the deck.',
+  'tracker.fromDiscards': 'The deck is empty, so the draw comes from the reshuffled discards.',
+  'tracker.nothingToDraw': 'Nothing left to draw.',
+
+  'online.title': 'Play Online',
+  'online.connecting': 'Connecting…',
+  'online.share': 'Share the code with your friends.',
+  'online.needsServer': 'Needs the game server (`npm run server`).',
+  'online.name': 'Your name',
+  'online.newTable': 'New Table ({count} seats)',
+  'online.create': 'Create Table',
+  'online.joinTitle': 'Join a Table',
+  'online.code': 'CODE',
+  'online.join': 'Join',
+  'online.tableCode': 'Table Code',
+  'online.open': 'Open',
+  'online.you': ' (you)',
+  'online.host': 'Host',
+  'online.leave': 'Leave',
+  'online.start': 'Start Game',
+  'online.dealAgain': 'Deal Again',
+  'online.waiting': 'Waiting for the host to start…',
+
+  'lobbyError.bad_message': "The server couldn't read that request.",
+  'lobbyError.bad_seat_count': "A table can't have that many seats.",
+  'lobbyError.no_table': 'There is no table with that code.',
+  'lobbyError.already_started': 'That game has already started.',
+  'lobbyError.table_full': 'That table is full.',
+  'lobbyError.seat_gone': 'That seat is no longer available.',
+  'lobbyError.not_host': 'Only the host can start the game.',
+  'lobbyError.game_running': 'The game is already running.',
+  'lobbyError.not_started': 'The game has not started.',
+  'lobbyError.not_seated': 'Join a table first.',
+  'lobbyError.already_seated': 'Leave this table first.',
+  'lobbyError.server_error': 'Something went wrong on the server.',
+} as const;
@@ -0,0 +1,72 @@
+import { AiDifficulty, Card, Rank, Suit } from '../types';
+import { en } from './en';
+import { zhCN } from './zh-CN';
+
+// Message catalogs. The current locale is module state so plain functions (status
+// messages, the move log, rule summaries) translate the same way components do;
+// the App re-renders everything when it changes. The server never switches, so
+// prompts and logs it builds stay in English.
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
+
+export const LOCALES = [
+  { key: 'en', label: 'English' },
+  { key: 'zh-CN', label: '简体中文' },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]['key'];
+
+const CATALOGS: Record<Locale, Catalog> = { en, 'zh-CN': zhCN };
+
+let current: Locale = 'en';
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  current = locale;
+};
+
+export const detectLocale = (): Locale =>
+  typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+
+// "{a} and {b}" -> 'a' | 'b'
+type Params<S extends string> = S extends `${string}{${infer P}}${infer Rest}` ? P | Params<Rest> : never;
+type Args<K extends MessageKey> = [Params<(typeof en)[K]>] extends [never] ? [] : [Record<Params<(typeof en)[K]>, string | number>];
+
+export const t = <K extends MessageKey>(key: K, ...[params]: Args<K>): string => {
+  const template = CATALOGS[current][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String((params as Record<string, string | number>)[name]) : match));
+};
+
+// Joins sentences the way the locale does: spaced in English, run together in Chinese
+export const sentences = (...parts: (string | null | false)[]): string =>
+  parts.filter(Boolean).join(t('sentence.separator'));
+
+const RANK_KEYS: Partial<Record<Rank, 'rank.A' | 'rank.J' | 'rank.Q' | 'rank.K' | 'rank.Joker'>> = {
+  A: 'rank.A',
+  J: 'rank.J',
+  Q: 'rank.Q',
+  K: 'rank.K',
+  Joker: 'rank.Joker',
+};
+
+export const rankName = (rank: Rank): string => (RANK_KEYS[rank] ? t(RANK_KEYS[rank]!) : rank);
+
+export const suitName = (suit: Suit): string => t(`suit.${suit}`);
+
+export const difficultyName = (difficulty: AiDifficulty = 'normal'): string => t(`difficulty.${difficulty}`);
+
+// Spoken and written card name, e.g. "Queen of spades" / "黑桃Q"; jokers have no suit
+export const cardName = (card: Card): string =>
+  card.suit ? t('card.name', { rank: rankName(card.rank), suit: suitName(card.suit) }) : rankName(card.rank);
+
+// Default seat names are stored in English so stats stay comparable; show them localized
+export const displayName = (name: string): string => {
+  if (name === 'You') return t('player.you');
+  if (name === 'AI') return t('player.ai');
+  const numbered = name.match(/^(Player|AI) (\d+)$/);
+  if (!numbered) return name;
+  return t(numbered[1] === 'AI' ? 'player.aiNumbered' : 'player.human', { number: numbered[2] });
+};
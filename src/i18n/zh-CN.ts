@@ -0,0 +1,419 @@
+import { Catalog } from './index';
+
+export const zhCN: Catalog = {
+  'app.title': '帅气无敌的黄',
+  'app.language': '语言',
+  'sentence.separator': '',
+  'list.separator': '、',
+
+  'suit.hearts': '红桃',
+  'suit.diamonds': '方块',
+  'suit.clubs': '梅花',
+  'suit.spades': '黑桃',
+  'rank.A': 'A',
+  'rank.J': 'J',
+  'rank.Q': 'Q',
+  'rank.K': 'K',
+  'rank.Joker': '王牌',
+  'card.name': '{suit}{rank}',
+  'card.playable': '{card}，可出',
+  'card.notPlayable': '{card}，不可出',
+  'card.picked': '{card}，第 {position} 张',
+
+  'player.you': '你',
+  'player.ai': '电脑',
+  'player.human': '玩家 {number}',
+  'player.aiNumbered': '电脑 {number}',
+
+  'difficulty.easy': '简单',
+  'difficulty.normal': '普通',
+  'difficulty.hard': '困难',
+  'difficulty.expert': '专家',
+
+  'rules.wild': '8 是万能牌',
+  'rules.match': '同花色或同点数',
+  'rules.decks': '{count} 副牌',
+  'rules.alwaysWild': '8 始终是万能牌。',
+  'rules.drawTwo.label': '2 罚摸两张',
+  'rules.drawTwo.description': '下一位玩家摸两张牌。',
+  'rules.stackPenalties.label': '罚牌叠加',
+  'rules.stackPenalties.description': '用另一张罚牌回应，把惩罚传给下一位。',
+  'rules.queenOfSpadesDrawFive.label': '黑桃 Q 罚摸五张',
+  'rules.queenOfSpadesDrawFive.description': '黑桃 Q 让下一位玩家摸五张牌。',
+  'rules.jackSkips.label': 'J 跳过',
+  'rules.jackSkips.description': 'J 跳过下一位玩家。',
+  'rules.aceReverses.label': 'A 反转',
+  'rules.aceReverses.description': 'A 反转出牌方向。',
+  'rules.drawUntilPlayable.label': '摸到能出为止',
+  'rules.drawUntilPlayable.description': '一直摸牌直到能出牌，而不是摸一张就过。',
+  'rules.noEightFinish.label': '8 不能收尾',
+  'rules.noEightFinish.description': '最后一张牌不能是 8。',
+  'rules.multiCardPlay.label': '同点连出',
+  'rules.multiCardPlay.description': '可一次打出多张同点数的牌，最后一张决定花色。',
+  'rules.jokers.label': '王牌罚四张',
+  'rules.jokers.description': '每副牌加入两张王牌。王牌可当万能牌，并让下家摸四张。',
+
+  'rejection.game_over': '本局已结束',
+  'rejection.not_your_turn': '还没轮到你',
+  'rejection.wrong_phase': '现在不能这样做',
+  'rejection.card_not_in_hand': '这张牌不在你手中',
+  'rejection.illegal_card': '这张牌不匹配',
+  'rejection.penalty_pending': '有罚牌待摸',
+  'rejection.eight_cannot_finish': '最后一张牌不能是 8',
+  'rejection.deck_empty': '已经没有牌可摸',
+  'rejection.must_draw': '必须先摸牌才能过',
+  'rejection.has_playable_card': '你有可以出的牌',
+  'rejection.multi_card_disabled': '每次只能出一张牌',
+  'rejection.rank_mismatch': '一起打出的牌点数必须相同',
+
+  'status.welcome': '欢迎来到疯狂 8 点！出同花色或同点数的牌。',
+  'status.welcomeBack': '欢迎回来！已恢复你的牌局。{turn}',
+  'status.dealt': '{turn}出同花色或同点数的牌。',
+  'status.thinking': '{name} 正在思考……',
+  'status.yourTurn': '轮到你了。',
+  'status.playerTurn': '轮到 {name}。',
+  'status.undone': '已悔棋。{turn}',
+  'status.loaded': '已载入牌局 {seed}。{turn}',
+  'status.loadedFinished': '已载入牌局 {seed}。本局已结束。',
+  'status.loadFailed': '无法载入该文件：{error}',
+  'record.notJson': '文件不是有效的 JSON。',
+  'record.notAFile': '这不是游戏文件。',
+  'record.wrongFormat': '这不是疯狂八点的游戏文件。',
+  'record.noVersion': '文件缺少版本号。',
+  'record.newerVersion': '文件版本为 {version}，但本游戏最多只能读取版本 {supported}。请更新游戏后再打开。',
+  'record.oldVersion': '不支持版本 {version} 的文件。',
+  'record.badSeed': '缺少种子。',
+  'record.badRules': '无法读取房规。',
+  'record.badDecks': '不支持该副数。',
+  'record.badPlayers': '游戏需要 {min}-{max} 名玩家。',
+  'record.noName': '每位玩家都需要名字。',
+  'record.badKind': '每位玩家必须是真人或 AI。',
+  'record.badDifficulty': '未知的 AI 难度“{difficulty}”。',
+  'record.badDealer': '庄家不是玩家之一。',
+  'record.badLog': '缺少出牌记录。',
+  'record.badLogEntry': '出牌记录第 {index} 条格式错误。',
+  'record.illegalMove': '{name} 的第 {move} 步不合规则：{reason}。',
+  'record.edited': '出牌记录与该种子的发牌不符，文件可能被修改过。',
+  'status.rejected': '无效操作：{reason}',
+  'status.timeUp': '{name} 超时了！',
+
+  'action.crazyEight': '疯狂 8！请选择新花色。',
+  'action.joker': '王牌！请选择新花色。',
+  'action.played': '{name} 出了{card}。',
+  'action.reverse': '出牌方向反转！',
+  'action.skipped': '{name} 被跳过！',
+  'action.penaltyPending': '待摸 {count} 张！',
+  'action.reshuffled': '弃牌堆已洗回牌堆。',
+  'action.drewCards': '{name} 摸了 {count} 张牌。',
+  'action.drewCard': '{name} 摸到{card}。',
+  'action.drewHidden': '{name} 摸了一张牌。',
+  'action.drewAndPassed': '{name} 无牌可出，摸了一张牌。',
+  'action.suitChanged': '花色改为{suit}。',
+  'action.aiSuitChanged': '{name} 打出 8，把花色改为{suit}！',
+  'action.aiJokerSuitChanged': '{name} 打出王牌，把花色改为{suit}！',
+  'action.passed': '{name} 无牌可出，也无牌可摸。',
+
+  'header.seed': '本局种子 —— 在网址后加 ?seed= 即可重玩',
+  'header.tableCode': '在线牌桌代码',
+  'header.export': '导出牌局文件',
+  'header.import': '载入牌局文件',
+  'header.history': '出牌记录',
+  'header.highContrast': '高对比度',
+  'header.mute': '静音',
+  'header.unmute': '打开声音',
+  'header.coach': '教练',
+  'header.tracker': '记牌器',
+  'header.stats': '统计',
+  'header.daily': '每日挑战',
+  'header.tournaments': '锦标赛',
+  'header.online': '在线对战',
+  'header.setup': '游戏设置',
+  'header.restart': '重新开始',
+
+  'match.round': '第 {round} 局 • 先到 {target} 分',
+  'match.dealer': '庄家',
+
+  'table.away': '离线',
+  'table.awayHint': '已断线；短暂等待后由电脑代打',
+  'table.winEstimate': '专家电脑自估胜率',
+  'table.drawPile': '牌堆',
+  'table.discardPile': '弃牌堆',
+  'table.reshuffle': '重洗',
+  'table.empty': '空',
+  'table.drawPileLabel': '牌堆，{count} 张',
+  'table.drawPileReshuffles': '牌堆已空，摸牌时会重洗弃牌堆',
+  'table.drawPileEmpty': '牌堆已空',
+  'table.topCard': '顶牌，{card}',
+  'table.topCardSuit': '顶牌，{card}。指定花色：{suit}',
+  'table.handsHidden': '手牌已隐藏',
+  'table.yourHand': '你的手牌（{count}）',
+  'table.playerHand': '{name} 的手牌（{count}）',
+  'table.handLabel': '你的手牌。方向键切换，回车出牌，D 摸牌。',
+  'table.clockwise': '顺时针',
+  'table.counterClockwise': '逆时针',
+  'table.undo': '悔棋',
+  'table.undoHint': '撤回你上一回合',
+  'table.hint': '提示',
+  'table.hintHint': '为你的出法排序',
+  'table.hints': '推荐出法',
+  'table.drawPenalty': '摸 {count} 张',
+  'table.pass': '过',
+  'table.drawCard': '摸牌',
+  'table.playSet': '出 {count} 张',
+  'table.playSetHint': '按选择顺序出牌，最后一张在最上面',
+  'table.clearPicks': '清除',
+  'table.turnTimer': '本回合剩余时间',
+  'table.clock': '{name} 的棋钟',
+
+  'handoff.title': '请交给 {name}',
+  'handoff.reveal': '我是 {name} —— 显示我的手牌',
+
+  'suitPicker.title': '疯狂 8！',
+  'suitPicker.jokerTitle': '王牌！',
+  'suitPicker.prompt': '选择新的花色（按键 1–4）',
+
+  'gameOver.matchWinnerYou': '你赢得了比赛！',
+  'gameOver.matchWinner': '{name} 赢得了比赛！',
+  'gameOver.stalemate': '僵局！',
+  'gameOver.won': '{name} 获胜！',
+  'gameOver.stalemateYouWin': '无人能出牌。你剩余点数最少，获胜。',
+  'gameOver.stalemateWinner': '无人能出牌。{name} 剩余点数最少，获胜。',
+  'gameOver.stalemateDraw': '无人能出牌，且最少点数并列。平局。',
+  'gameOver.youWentOut': '精彩！你出完了所有手牌。',
+  'gameOver.humanWentOut': '精彩！{name} 出完了所有手牌。',
+  'gameOver.aiWentOut': '下次好运！电脑太快了。',
+  'gameOver.player': '玩家',
+  'gameOver.left': '剩余',
+  'gameOver.round': '本局',
+  'gameOver.total': '总分',
+  'gameOver.nextRound': '下一局',
+  'gameOver.newMatch': '新比赛',
+  'gameOver.playAgain': '再来一局',
+  'gameOver.replay': '观看回放',
+
+  'setup.title': '游戏设置',
+  'setup.applyNote': '更改将在下一局生效。',
+  'setup.seats': '座位（{count}）',
+  'setup.toggleKind': '切换玩家或电脑',
+  'setup.match': '比赛',
+  'setup.single': '单局',
+  'setup.target': '到 {target} 分',
+  'setup.expertBudget': '专家电脑预算',
+  'setup.thinkTime': '思考时间（毫秒）',
+  'setup.iterations': '最大迭代次数',
+  'setup.houseRules': '房规',
+  'setup.decks': '牌数',
+  'setup.decksHint': '人多时多用几副牌，免得牌不够摸。',
+  'setup.pace': '节奏',
+  'setup.paceHint': '计时只用于本地对局。时间用完时会自动替你摸牌或出牌。',
+  'setup.turnTimer': '每回合限时',
+  'setup.speedClock': '快棋钟（整局）',
+  'setup.aiDelay': 'AI 速度',
+  'setup.off': '关',
+  'setup.seconds': '{count} 秒',
+  'setup.minutes': '{count} 分钟',
+  'aiDelay.instant': '即时',
+  'aiDelay.fast': '快',
+  'aiDelay.normal': '正常',
+  'aiDelay.slow': '慢',
+  'setup.appearance': '外观',
+  'setup.appearanceHint': '更改立即生效，并保存在本设备上。',
+  'setup.theme': '主题',
+  'setup.cardBack': '牌背',
+  'setup.uploadCardBack': '上传图片',
+  'setup.removeCardBack': '使用主题牌背',
+  'setup.uploadFailed': '无法使用这张图片，请换一张小一点的。',
+  'theme.classic': '经典',
+  'theme.dark': '深色',
+  'theme.four_color': '四色',
+  'theme.large_print': '大字',
+  'setup.soundAndMotion': '声音与动画',
+  'setup.reducedMotionHint': '设备要求减少动态效果时，无论速度如何，牌都不会移动。',
+  'setup.volume': '音效',
+  'setup.haptics': '轮到你时振动',
+  'setup.on': '开',
+  'setup.animationSpeed': '动画速度',
+  'volume.low': '低',
+  'volume.medium': '中',
+  'volume.high': '高',
+  'animationSpeed.off': '关',
+  'animationSpeed.fast': '快',
+  'animationSpeed.normal': '正常',
+  'animationSpeed.slow': '慢',
+  'setup.apply': '用这些设置开始新游戏',
+
+  'stats.title': '统计',
+  'stats.offline': '无法连接统计服务器。请运行 `npm run server` 启动。',
+  'stats.loading': '加载中……',
+  'stats.empty': '还没有已完成的牌局。',
+  'stats.player': '玩家',
+  'stats.games': '局数',
+  'stats.winRate': '胜率',
+  'stats.streak': '连胜',
+  'stats.best': '最佳',
+  'stats.averageScore': '平均分',
+  'stats.favoriteSuit': '常选花色',
+
+  'tournament.title': '锦标赛',
+  'tournament.intro': '在这台设备上举办循环赛或淘汰赛。每组对阵打一场比赛，锦标赛保存在本浏览器中，直到你删除为止。',
+  'tournament.empty': '还没有锦标赛。',
+  'tournament.all': '全部锦标赛',
+  'tournament.new': '新建锦标赛',
+  'tournament.name': '名称',
+  'tournament.defaultName': '锦标赛 {number}',
+  'tournament.format': '赛制',
+  'tournament.format.round_robin': '循环赛',
+  'tournament.format.single_elimination': '淘汰赛',
+  'tournament.target': '每场比赛目标',
+  'tournament.points': '{target} 分',
+  'tournament.entrants': '玩家（{count}）',
+  'tournament.entrantHint': '{min} 到 {max} 名玩家。',
+  'tournament.playerName': '玩家名字',
+  'tournament.difficulty': 'AI 难度',
+  'tournament.addHuman': '添加玩家',
+  'tournament.addAi': '添加 AI',
+  'tournament.remove': '移除{name}',
+  'tournament.cancel': '取消',
+  'tournament.create': '创建锦标赛',
+  'tournament.delete': '删除{name}',
+  'tournament.progress': '已赛 {done}/{total} 场',
+  'tournament.champion': '冠军：{name}',
+  'tournament.standings': '积分榜',
+  'tournament.tiebreak': '按胜场排名，其次比较总分，再比较相互间的胜负。',
+  'tournament.played': '场',
+  'tournament.won': '胜',
+  'tournament.lost': '负',
+  'tournament.pointsShort': '分',
+  'tournament.round': '第 {round} 轮',
+  'tournament.final': '决赛',
+  'tournament.vs': '对',
+  'tournament.bye': '{name}轮空',
+  'tournament.play': '开始',
+  'tournament.continue': '继续',
+  'tournament.resume': '回到牌桌',
+  'tournament.simulate': '模拟',
+  'tournament.back': '返回锦标赛',
+
+  'daily.title': '每日挑战',
+  'daily.intro': '每天所有人拿到同一副牌，单挑困难 AI。每人只有一次机会；新牌局在 UTC 零点发出。',
+  'daily.today': '{date} 的挑战',
+  'daily.name': '排行榜上显示的名字',
+  'daily.play': '开始今日挑战',
+  'daily.resume': '继续',
+  'daily.played': '你已经玩过今日挑战了，明天再来挑战新牌局吧。',
+  'daily.leaderboard': '今日排行榜',
+  'daily.history': '往日挑战',
+  'daily.player': '玩家',
+  'daily.result': '结果',
+  'daily.moves': '步数',
+  'daily.opponentCards': 'AI 剩余牌数',
+  'daily.won': '胜',
+  'daily.lost': '负',
+  'daily.empty': '今天还没有人完成挑战。',
+  'daily.noHistory': '还没有往日挑战。',
+  'daily.summary': '{players} 人参加，{winners} 人获胜',
+  'daily.entry': '第 {rank} 名：{result}，{moves} 步',
+  'daily.notPlayed': '未参加',
+  'daily.offline': '无法连接排行榜。请运行 `npm run server` 启动。',
+  'daily.started': '{date} 的每日挑战。不能悔棋，且只有这一次机会。',
+  'daily.ranked': '每日挑战成绩已记录：你排在第 {rank} 名。',
+  'daily.notRecorded': '每日挑战成绩未能记录：{error}',
+  'daily.noImport': '只有已完成的每日挑战才能从文件载入。',
+
+  'history.title': '出牌记录',
+  'history.deal': '{name} 发牌，每人 {count} 张，翻开{card}',
+  'history.play': '{name} 出了{card}',
+  'history.drewCards': '{name} 摸到{cards}',
+  'history.drewOne': '{name} 摸了一张牌',
+  'history.drewMany': '{name} 摸了 {count} 张牌',
+  'history.chooseSuit': '{name} 指定{suit}',
+  'history.pass': '{name} 过',
+  'history.reshuffle': '{count} 张牌洗回牌堆',
+
+  'replay.title': '回放',
+  'replay.progress': '种子 {seed} • 第 {step} / {last} 步',
+  'replay.winner': '胜者',
+  'replay.top': '顶牌',
+  'replay.first': '第一步',
+  'replay.back': '后退',
+  'replay.play': '播放',
+  'replay.pause': '暂停',
+  'replay.forward': '前进',
+  'replay.last': '最后一步',
+
+  'coach.title': '教练',
+  'coach.checking': '正在连接教练……',
+  'coach.unavailable': '教练不可用。需要本地服务器（`npm run server`）并设置 GEMINI_API_KEY。',
+  'coach.waitForTurn': '请等待你的回合',
+  'coach.suggest': '建议一步',
+  'coach.review': '复盘本局',
+  'coach.thinking': '思考中……',
+  'coach.noPick': '没有明确建议',
+  'coach.play': '出{card}',
+  'coach.playAny': '出一张牌',
+  'coach.callSuit': '指定{suit}',
+  'coach.draw': '摸一张牌',
+  'coach.drawPenalty': '摸 {count} 张',
+  'coach.pass': '过',
+
+  'explain.calledSuit': '必须出{suit}，这是{card}指定的花色。',
+  'explain.noMatch': '与{card}的花色和点数都不相同。',
+  'explain.stackOnly': '只有罚牌可以叠在 +{count} 上，否则请摸牌。',
+  'explain.mustDraw': '请先摸 {count} 张罚牌。',
+  'explain.other': '不能出这张牌：{reason}。',
+
+  'hint.goesOut': '出完手牌，直接获胜',
+  'hint.keepsWild': '留着{card}以后用',
+  'hint.spendsWild': '用掉了本可以留着的{card}',
+  'hint.dumpsPoints': '甩掉 {points} 分',
+  'hint.sheds': '一次出掉 {count} 张',
+  'hint.keepsSuit': '你还有 {count} 张{suit}',
+  'hint.targetsVoid': '下家似乎没有{suit}了',
+  'hint.slows': '拖住只剩 {count} 张牌的下家',
+  'hint.nothingFits': '手里没有能出的牌',
+  'hint.takePenalty': '没有可以叠在 +{count} 上的牌',
+  'hint.saveWild': '把万能牌留到需要的时候',
+
+  'tracker.title': '记牌器',
+  'tracker.hidden': '手牌可见时，显示你见过的牌。',
+  'tracker.unseen': '还有 {count} 张牌未见：既不在你手中，也不在弃牌堆里。',
+  'tracker.jokers': '未见 {count} 张',
+  'tracker.voids': '可能已没有',
+  'tracker.noVoids': '暂无线索',
+  'tracker.drawOdds': '下一张摸到可出牌的概率',
+  'tracker.fromDeck': '假设任何未见的牌都可能在牌堆顶。',
+  'tracker.fromDiscards': '牌堆已空，下一张将从重洗的弃牌中摸取。',
+  'tracker.nothingToDraw': '已无牌可摸。',
+
+  'online.title': '在线对战',
+  'online.connecting': '连接中……',
+  'online.share': '把代码分享给朋友。',
+  'online.needsServer': '需要游戏服务器（`npm run server`）。',
+  'online.name': '你的名字',
+  'online.newTable': '新牌桌（{count} 个座位）',
+  'online.create': '创建牌桌',
+  'online.joinTitle': '加入牌桌',
+  'online.code': '代码',
+  'online.join': '加入',
+  'online.tableCode': '牌桌代码',
+  'online.open': '空位',
+  'online.you': '（你）',
+  'online.host': '房主',
+  'online.leave': '离开',
+  'online.start': '开始游戏',
+  'online.dealAgain': '再发一局',
+  'online.waiting': '等待房主开始……',
+
+  'lobbyError.bad_message': '服务器无法读取该请求。',
+  'lobbyError.bad_seat_count': '牌桌不能设这么多座位。',
+  'lobbyError.no_table': '没有该代码的牌桌。',
+  'lobbyError.already_started': '该牌局已经开始。',
+  'lobbyError.table_full': '该牌桌已满。',
+  'lobbyError.seat_gone': '该座位已不可用。',
+  'lobbyError.not_host': '只有房主可以开始游戏。',
+  'lobbyError.game_running': '牌局正在进行中。',
+  'lobbyError.not_started': '牌局尚未开始。',
+  'lobbyError.not_seated': '请先加入牌桌。',
+  'lobbyError.already_seated': '请先离开当前牌桌。',
+  'lobbyError.server_error': '服务器出错了。',
+};
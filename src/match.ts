@@ -0,0 +1,51 @@
+import { GameState, MatchState, RoundResult } from './types';
+import { getHandPoints } from './constants';
+
+// Match play: rounds are ordinary games, scored and totalled until someone reaches the target.
+
+export const MATCH_TARGETS = [100, 250, 500];
+
+export const createMatch = (target: number, seatCount: number): MatchState => ({
+  target,
+  rounds: [],
+  totals: Array(seatCount).fill(0),
+  dealer: seatCount - 1,
+});
+
+// The player who goes out takes every point left in the other hands. A stalemate
+// winner takes the difference between each other hand and their own.
+export const scoreRound = (state: GameState): RoundResult => {
+  const handPoints = state.seats.map(s => getHandPoints(s.hand));
+  const scores = handPoints.map(() => 0);
+  if (state.winner !== null) {
+    const own = handPoints[state.winner];
+    scores[state.winner] = handPoints.reduce((sum, p, i) => (i === state.winner ? sum : sum + p - own), 0);
+  }
+  return {
+    seed: state.seed,
+    winner: state.winner,
+    endReason: state.endReason ?? 'stalemate',
+    handPoints,
+    scores,
+  };
+};
+
+// Safe to call more than once for the same finished round
+export const recordRound = (match: MatchState, state: GameState): MatchState => {
+  if (state.status !== 'game_over' || match.rounds.some(r => r.seed === state.seed)) return match;
+  const round = scoreRound(state);
+  return {
+    ...match,
+    rounds: [...match.rounds, round],
+    totals: match.totals.map((t, i) => t + round.scores[i]),
+    // The deal passes to the left
+    dealer: (match.dealer + 1) % match.totals.length,
+  };
+};
+
+// Highest total once anyone reaches the target; a tie at the top plays on
+export const getMatchWinner = (match: MatchState): number | null => {
+  const best = Math.max(...match.totals);
+  if (best < match.target) return null;
+  return match.totals.filter(t => t === best).length === 1 ? match.totals.indexOf(best) : null;
+};
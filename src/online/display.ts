@@ -0,0 +1,32 @@
+import { Card, GameState, PlayerView } from '../types';
+import { LobbyInfo } from './protocol';
+
+// Rebuilds a GameState from what the server let this seat see, so the table renders
+// online games exactly like local ones. Cards we can't see are face-down placeholders.
+
+const hiddenCards = (owner: string, count: number): Card[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `hidden-${owner}-${i}`, suit: 'spades', rank: 'A' }));
+
+export const toDisplayState = (view: PlayerView, lobby: LobbyInfo, revealedHands: Card[][] | null): GameState => ({
+  seed: '', // The server keeps the seed to itself; it would reveal every hand
+  deck: hiddenCards('deck', view.deckCount),
+  seats: lobby.seats.map((seat, i) => ({
+    name: seat.name ?? `Seat ${i + 1}`,
+    kind: seat.kind,
+    ...(seat.kind === 'ai' ? { difficulty: 'normal' as const } : {}),
+    hand: revealedHands?.[i] ?? (i === view.seat ? view.hand : hiddenCards(String(i), view.handCounts[i])),
+  })),
+  discardPile: view.discardPile,
+  currentSeat: view.currentSeat,
+  dealer: view.dealer,
+  status: view.status,
+  winner: view.winner,
+  endReason: view.endReason,
+  pendingSuitChange: view.status === 'suit_selection',
+  currentSuit: view.currentSuit,
+  rules: view.rules,
+  pendingDraw: view.pendingDraw,
+  direction: view.direction,
+  reshuffles: view.reshuffles,
+  log: view.log,
+});
@@ -0,0 +1,50 @@
+import { Card, GameAction, PlayerView, RejectionReason, RuleSet, SeatKind } from '../types';
+
+// Messages exchanged over the /ws socket. The server owns the game; clients only
+// ever receive their own PlayerView, never the deck or other hands.
+
+export interface LobbySeatInfo {
+  name: string | null; // Null while the seat is still open
+  kind: SeatKind;
+  connected: boolean;
+}
+
+export interface LobbyInfo {
+  code: string;
+  host: number;
+  rules: RuleSet;
+  seats: LobbySeatInfo[];
+  started: boolean;
+}
+
+// Why the server refused a message. Text lives in the message catalogs under `lobbyError.<reason>`.
+export type LobbyError =
+  | 'bad_message'
+  | 'bad_seat_count'
+  | 'no_table'
+  | 'already_started'
+  | 'table_full'
+  | 'seat_gone'
+  | 'not_host'
+  | 'game_running'
+  | 'not_started'
+  | 'not_seated'
+  | 'already_seated'
+  | 'server_error';
+
+export type ClientMessage =
+  | { type: 'create'; name: string; seatCount: number; rules: RuleSet }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'resume'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'action'; action: GameAction }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'joined'; code: string; seat: number; token: string }
+  | { type: 'lobby'; lobby: LobbyInfo }
+  // Hands are only revealed once the game is over, for the scoring breakdown
+  | { type: 'state'; lobby: LobbyInfo; view: PlayerView; lastAction: GameAction | null; revealedHands: Card[][] | null }
+  | { type: 'rejected'; reason: RejectionReason }
+  // `detail` says in English what was wrong with a malformed message
+  | { type: 'error'; reason: LobbyError; detail?: string };
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameAction, GameState, RuleSet } from '../types';
+import { ClientMessage, LobbyInfo, ServerMessage } from './protocol';
+import { toDisplayState } from './display';
+import { t } from '../i18n';
+
+// Connection to the online game server. The seat token lives in sessionStorage so a
+// refresh or dropped connection resumes the same seat instead of joining a new one.
+
+const SESSION_KEY = 'crazy-eights:online-seat';
+const MAX_BACKOFF_MS = 10_000;
+
+export type ConnectionStatus = 'offline' | 'connecting' | 'connected';
+
+interface Session {
+  code: string;
+  token: string;
+}
+
+const loadSession = (): Session | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const socketUrl = () => `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/ws`;
+
+export const useOnlineGame = () => {
+  const [status, setStatus] = useState<ConnectionStatus>('offline');
+  const [seat, setSeat] = useState<number | null>(null);
+  const [lobby, setLobby] = useState<LobbyInfo | null>(null);
+  // Previous and current table, so the caller can narrate the move between them
+  const [table, setTable] = useState<{ prev: GameState | null; state: GameState; lastAction: GameAction | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const sessionRef = useRef<Session | null>(loadSession());
+  // Sent once the socket opens; a resume takes priority when we already hold a seat
+  const pendingRef = useRef<ClientMessage | null>(null);
+  const retryRef = useRef({ attempts: 0, timer: null as ReturnType<typeof setTimeout> | null });
+  const mountedRef = useRef(false);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        sessionRef.current = { code: message.code, token: message.token };
+        sessionStorage.setItem(SESSION_KEY, JSON.stringify(sessionRef.current));
+        setSeat(message.seat);
+        setError(null);
+        break;
+      case 'lobby':
+        setLobby(message.lobby);
+        setTable(null);
+        break;
+      case 'state': {
+        setLobby(message.lobby);
+        const state = toDisplayState(message.view, message.lobby, message.revealedHands);
+        setTable(prev => ({ prev: prev?.state ?? null, state, lastAction: message.lastAction }));
+        break;
+      }
+      case 'rejected':
+        setError(t('status.rejected', { reason: t(`rejection.${message.reason}`) }));
+        break;
+      case 'error':
+        setError(t(`lobbyError.${message.reason}`));
+        // A seat we can no longer resume is gone for good
+        if (!sessionRef.current || seat === null) {
+          sessionRef.current = null;
+          sessionStorage.removeItem(SESSION_KEY);
+        }
+        break;
+    }
+  }, [seat]);
+
+  const handlerRef = useRef(handleMessage);
+  handlerRef.current = handleMessage;
+
+  const connect = useCallback(() => {
+    if (socketRef.current) return;
+    setStatus('connecting');
+    const socket = new WebSocket(socketUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      setStatus('connected');
+      retryRef.current.attempts = 0;
+      const session = sessionRef.current;
+      if (session) socket.send(JSON.stringify({ type: 'resume', ...session } satisfies ClientMessage));
+      else if (pendingRef.current) socket.send(JSON.stringify(pendingRef.current));
+      pendingRef.current = null;
+    };
+    socket.onmessage = (event) => handlerRef.current(JSON.parse(event.data));
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      setStatus('offline');
+      if (!mountedRef.current || !sessionRef.current) return;
+      // Exponential backoff while we still hold a seat
+      const retry = retryRef.current;
+      const delay = Math.min(MAX_BACKOFF_MS, 500 * 2 ** retry.attempts++);
+      retry.timer = setTimeout(connect, delay);
+    };
+  }, []);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else {
+      pendingRef.current = message;
+      connect();
+    }
+  }, [connect]);
+
+  // Pick up a seat held before a refresh
+  useEffect(() => {
+    mountedRef.current = true;
+    if (sessionRef.current) connect();
+    return () => {
+      mountedRef.current = false;
+      const retry = retryRef.current;
+      if (retry.timer) clearTimeout(retry.timer);
+      const socket = socketRef.current;
+      socketRef.current = null;
+      socket?.close();
+    };
+  }, [connect]);
+
+  const leave = useCallback(() => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' } satisfies ClientMessage));
+    sessionRef.current = null;
+    sessionStorage.removeItem(SESSION_KEY);
+    socketRef.current = null;
+    socket?.close();
+    setStatus('offline');
+    setSeat(null);
+    setLobby(null);
+    setTable(null);
+    setError(null);
+  }, []);
+
+  return {
+    status,
+    seat,
+    lobby,
+    state: table?.state ?? null,
+    previousState: table?.prev ?? null,
+    lastAction: table?.lastAction ?? null,
+    error,
+    isHost: lobby !== null && lobby.host === seat,
+    create: (name: string, seatCount: number, rules: RuleSet) => send({ type: 'create', name, seatCount, rules }),
+    join: (code: string, name: string) => send({ type: 'join', code, name }),
+    start: () => send({ type: 'start' }),
+    sendAction: (action: GameAction) => send({ type: 'action', action }),
+    leave,
+  };
+};
+
+export type OnlineGame = ReturnType<typeof useOnlineGame>;
@@ -0,0 +1,17 @@
+// Per-device display preferences, kept in localStorage. Unreadable values fall back
+// to the default rather than breaking the page.
+
+const PREFIX = 'crazy-eights:pref:';
+
+export const loadPreference = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(PREFIX + key);
+    return stored === null ? fallback : JSON.parse(stored);
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePreference = <T,>(key: string, value: T) => {
+  localStorage.setItem(PREFIX + key, JSON.stringify(value));
+};
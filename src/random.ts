@@ -0,0 +1,28 @@
+// Seedable randomness. Every shuffle in the game goes through an `Rng` so a
+// seed string is enough to reproduce a deal exactly.
+
+export type Rng = () => number;
+
+// FNV-1a, so any string (including ones typed into the URL) maps to a 32-bit seed
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny, fast and good enough for card games
+export const createRng = (seed: string): Rng => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): string => Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0');
@@ -0,0 +1,59 @@
+import { Card, RuleFlag, RuleSet } from './types';
+import { MAX_DECKS } from './constants';
+import { t } from './i18n';
+
+// House rules. Each flag is independent; the engine reads them through the helpers below.
+
+export const DEFAULT_RULES: RuleSet = {
+  drawTwo: false,
+  stackPenalties: false,
+  queenOfSpadesDrawFive: false,
+  jackSkips: false,
+  aceReverses: false,
+  drawUntilPlayable: false,
+  noEightFinish: false,
+  multiCardPlay: false,
+  jokers: false,
+  decks: 1,
+};
+
+// Labels and descriptions live in the message catalogs under `rules.<key>`
+export const RULE_OPTIONS: { key: RuleFlag }[] = [
+  { key: 'drawTwo' },
+  { key: 'stackPenalties' },
+  { key: 'queenOfSpadesDrawFive' },
+  { key: 'jackSkips' },
+  { key: 'aceReverses' },
+  { key: 'drawUntilPlayable' },
+  { key: 'noEightFinish' },
+  { key: 'multiCardPlay' },
+  { key: 'jokers' },
+];
+
+export const DECK_COUNTS = Array.from({ length: MAX_DECKS }, (_, i) => i + 1);
+
+export const isDeckCount = (value: unknown): value is number => DECK_COUNTS.includes(value as number);
+
+// A complete RuleSet, as sent by a client: every flag a boolean and a supported deck count
+export const isRuleSet = (value: unknown): value is RuleSet => {
+  if (!value || typeof value !== 'object') return false;
+  const rules = value as Record<string, unknown>;
+  return RULE_OPTIONS.every(o => typeof rules[o.key] === 'boolean') && isDeckCount(rules.decks);
+};
+
+export const getDrawPenalty = (card: Card, rules: RuleSet): number => {
+  if (rules.drawTwo && card.rank === '2') return 2;
+  if (rules.queenOfSpadesDrawFive && card.rank === 'Q' && card.suit === 'spades') return 5;
+  if (card.rank === 'Joker') return 4;
+  return 0;
+};
+
+export const isSkip = (card: Card, rules: RuleSet): boolean => rules.jackSkips && card.rank === 'J';
+
+export const isReverse = (card: Card, rules: RuleSet): boolean => rules.aceReverses && card.rank === 'A';
+
+export const describeRules = (rules: RuleSet): string => {
+  const active = RULE_OPTIONS.filter(option => rules[option.key]).map(option => t(`rules.${option.key}.label`));
+  const decks = rules.decks > 1 ? [t('rules.decks', { count: rules.decks })] : [];
+  return [t('rules.wild'), t('rules.match'), ...decks, ...active].join(' • ');
+};
@@ -0,0 +1,112 @@
+import { GameState } from './types';
+
+// Sound effects, synthesized with Web Audio so there's nothing to download, and vibration
+// on phones. Like the theme, the settings are module state set by the App.
+
+export type SoundEffect = 'deal' | 'draw' | 'play' | 'suit_change' | 'reshuffle' | 'win' | 'loss';
+
+export interface SoundSettings {
+  volume: number; // 0 to 1
+  muted: boolean;
+  haptics: boolean; // Vibrate when a turn starts, where the device can
+}
+
+// Labels live in the message catalogs under `volume.<key>`
+export const VOLUMES: { key: 'low' | 'medium' | 'high'; level: number }[] = [
+  { key: 'low', level: 0.3 },
+  { key: 'medium', level: 0.6 },
+  { key: 'high', level: 1 },
+];
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = { volume: 0.6, muted: false, haptics: true };
+
+const TURN_VIBRATION = [40, 60, 40];
+
+interface Note {
+  frequency: number; // Hz
+  at: number; // Seconds after the sound starts
+  duration: number;
+  wave?: OscillatorType;
+  slideTo?: number; // Frequency to glide to over the note
+}
+
+const SOUNDS: Record<SoundEffect, Note[]> = {
+  deal: [0, 0.07, 0.14, 0.21].map(at => ({ frequency: 900, slideTo: 500, at, duration: 0.05, wave: 'triangle' })),
+  draw: [{ frequency: 500, slideTo: 260, at: 0, duration: 0.12, wave: 'triangle' }],
+  play: [{ frequency: 320, slideTo: 180, at: 0, duration: 0.09, wave: 'square' }],
+  suit_change: [
+    { frequency: 523, at: 0, duration: 0.1 },
+    { frequency: 659, at: 0.08, duration: 0.1 },
+    { frequency: 784, at: 0.16, duration: 0.18 },
+  ],
+  reshuffle: Array.from({ length: 8 }, (_, i) => ({ frequency: 1200 - i * 60, slideTo: 700, at: i * 0.035, duration: 0.03, wave: 'triangle' as const })),
+  win: [
+    { frequency: 523, at: 0, duration: 0.15 },
+    { frequency: 659, at: 0.12, duration: 0.15 },
+    { frequency: 784, at: 0.24, duration: 0.15 },
+    { frequency: 1047, at: 0.36, duration: 0.4 },
+  ],
+  loss: [
+    { frequency: 392, at: 0, duration: 0.2, wave: 'triangle' },
+    { frequency: 330, at: 0.18, duration: 0.2, wave: 'triangle' },
+    { frequency: 262, at: 0.36, duration: 0.45, wave: 'triangle' },
+  ],
+};
+
+let settings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+// Created on the first sound, since browsers only start audio after the player interacts
+let context: AudioContext | null = null;
+
+export const setSoundSettings = (next: SoundSettings) => {
+  settings = next;
+};
+
+const playNote = (audio: AudioContext, output: AudioNode, note: Note, start: number) => {
+  const begin = start + note.at;
+  const end = begin + note.duration;
+  const oscillator = audio.createOscillator();
+  oscillator.type = note.wave ?? 'sine';
+  oscillator.frequency.setValueAtTime(note.frequency, begin);
+  if (note.slideTo) oscillator.frequency.exponentialRampToValueAtTime(note.slideTo, end);
+  // A quick attack and exponential fade, so notes don't click
+  const envelope = audio.createGain();
+  envelope.gain.setValueAtTime(0.0001, begin);
+  envelope.gain.exponentialRampToValueAtTime(1, begin + 0.01);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+  oscillator.connect(envelope).connect(output);
+  oscillator.start(begin);
+  oscillator.stop(end);
+};
+
+export const playSound = (effect: SoundEffect) => {
+  if (settings.muted || settings.volume === 0 || typeof AudioContext === 'undefined') return;
+  context ??= new AudioContext();
+  if (context.state === 'suspended') context.resume();
+  const output = context.createGain();
+  output.gain.value = settings.volume * 0.3;
+  output.connect(context.destination);
+  SOUNDS[effect].forEach(note => playNote(context!, output, note, context!.currentTime));
+};
+
+export const vibrateForTurn = () => {
+  if (settings.haptics && typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(TURN_VIBRATION);
+};
+
+// The sound for the change from `prev` to `next`. A fresh deal is a new seed with only the
+// deal logged; undoing, loading a game part-way and anything else that doesn't move play
+// forward stays quiet. `seat` is whose win or loss it is; with no single player, any human
+// winning counts as a win.
+export const getSoundCue = (prev: GameState, next: GameState, seat: number | null): SoundEffect | null => {
+  if (prev.seed !== next.seed) return next.log.length === 1 ? 'deal' : null;
+  if (next.log.length <= prev.log.length) return null;
+  if (next.status === 'game_over' && prev.status !== 'game_over') {
+    const won = seat === null ? next.winner !== null && next.seats[next.winner].kind === 'human' : next.winner === seat;
+    return won ? 'win' : 'loss';
+  }
+  const entries = next.log.slice(prev.log.length);
+  if (entries.some(e => e.type === 'reshuffle')) return 'reshuffle';
+  if (entries.some(e => e.type === 'choose_suit')) return 'suit_change';
+  if (entries.some(e => e.type === 'play')) return 'play';
+  if (entries.some(e => e.type === 'draw')) return 'draw';
+  return null;
+};
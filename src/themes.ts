@@ -0,0 +1,133 @@
+import { Card, Suit } from './types';
+import { t } from './i18n';
+
+// Look of the table and cards. Like the language, the active theme is module state set
+// by the App, so anything rendering a card can read it without threading it through props.
+
+export type ThemeKey = 'classic' | 'dark' | 'four_color' | 'large_print';
+
+export interface Theme {
+  table: string; // Page background behind everything
+  face: string; // Face-up card background, also behind suit badges
+  faceBorder: string;
+  back: string; // Face-down card background and border
+  backPattern: string; // Tiles behind the monogram on a card back
+  monogram: string;
+  suitColors: Record<Suit, string>;
+  jokerColor: string;
+  cornerRank: string; // Rank in the card's corners
+  cornerIcon: string;
+  pip: string; // Suit in the middle of the card
+  size: string; // Width and height of a card
+  smallSize: string; // Opponents' cards at bigger tables
+}
+
+// High contrast switches to a four-colour deck so no suit relies on red vs. black alone
+const CLASSIC_SUITS: Record<Suit, string> = {
+  hearts: 'text-red-500 high-contrast:text-red-700',
+  diamonds: 'text-red-500 high-contrast:text-blue-700',
+  clubs: 'text-slate-900 high-contrast:text-green-800',
+  spades: 'text-slate-900 high-contrast:text-black',
+};
+
+const FOUR_COLOR_SUITS: Record<Suit, string> = {
+  hearts: 'text-red-600',
+  diamonds: 'text-blue-600',
+  clubs: 'text-green-700',
+  spades: 'text-slate-900',
+};
+
+const CLASSIC: Theme = {
+  table: 'felt-texture',
+  face: 'bg-white',
+  faceBorder: 'border-slate-200 high-contrast:border-slate-900',
+  back: 'bg-indigo-700 border-indigo-400',
+  backPattern: 'bg-indigo-800',
+  monogram: 'T',
+  suitColors: CLASSIC_SUITS,
+  jokerColor: 'text-purple-600 high-contrast:text-purple-900',
+  cornerRank: 'text-lg',
+  cornerIcon: 'w-4 h-4',
+  pip: 'w-10 h-10',
+  size: 'w-24 h-36 md:w-28 md:h-40',
+  smallSize: 'w-16 h-24',
+};
+
+// Labels live in the message catalogs under `theme.<key>`
+export const THEMES: { key: ThemeKey; theme: Theme }[] = [
+  { key: 'classic', theme: CLASSIC },
+  {
+    key: 'dark',
+    theme: {
+      ...CLASSIC,
+      table: 'felt-texture bg-[radial-gradient(circle_at_center,#1e293b_0%,#020617_100%)]',
+      face: 'bg-slate-800',
+      faceBorder: 'border-slate-600 high-contrast:border-white',
+      back: 'bg-slate-950 border-amber-500/60',
+      backPattern: 'bg-amber-500/40',
+      suitColors: {
+        hearts: 'text-rose-400',
+        diamonds: 'text-rose-400 high-contrast:text-sky-300',
+        clubs: 'text-slate-100 high-contrast:text-lime-300',
+        spades: 'text-slate-100',
+      },
+      jokerColor: 'text-fuchsia-300',
+    },
+  },
+  { key: 'four_color', theme: { ...CLASSIC, suitColors: FOUR_COLOR_SUITS } },
+  {
+    key: 'large_print',
+    theme: {
+      ...CLASSIC,
+      faceBorder: 'border-slate-900',
+      suitColors: FOUR_COLOR_SUITS,
+      jokerColor: 'text-purple-800',
+      cornerRank: 'text-3xl',
+      cornerIcon: 'w-6 h-6',
+      pip: 'w-14 h-14',
+      size: 'w-28 h-40 md:w-32 md:h-48',
+      smallSize: 'w-20 h-28',
+    },
+  },
+];
+
+export const DEFAULT_THEME: ThemeKey = 'classic';
+
+let active: Theme = CLASSIC;
+let cardBack: string | null = null;
+
+export const isThemeKey = (value: unknown): value is ThemeKey => THEMES.some(t => t.key === value);
+
+export const setTheme = (key: ThemeKey) => {
+  active = THEMES.find(t => t.key === key)?.theme ?? CLASSIC;
+};
+
+export const getTheme = (): Theme => active;
+
+// A picture the player uploaded for the backs of the cards, as a data URL; null for the theme's own
+export const setCardBack = (image: string | null) => {
+  cardBack = image;
+};
+
+export const getCardBack = (): string | null => cardBack;
+
+export const getCardColor = (card: Card): string => (card.suit ? active.suitColors[card.suit] : active.jokerColor);
+
+// Uploads are scaled to card proportions and re-encoded so they fit comfortably in localStorage
+const CARD_BACK_WIDTH = 240;
+const CARD_BACK_HEIGHT = 360;
+
+export const readCardBackImage = async (file: File): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error(t('setup.uploadFailed'));
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_BACK_WIDTH;
+  canvas.height = CARD_BACK_HEIGHT;
+  // Cover the card, cropping whichever side is too long
+  const scale = Math.max(CARD_BACK_WIDTH / bitmap.width, CARD_BACK_HEIGHT / bitmap.height);
+  const width = bitmap.width * scale;
+  const height = bitmap.height * scale;
+  canvas.getContext('2d')!.drawImage(bitmap, (CARD_BACK_WIDTH - width) / 2, (CARD_BACK_HEIGHT - height) / 2, width, height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
@@ -0,0 +1,195 @@
+import { GameState, MatchState, PlayerConfig, RuleSet, Tournament, TournamentFormat, TournamentPairing, TournamentStanding } from './types';
+import { createMatch, recordRound, getMatchWinner } from './match';
+import { initGame, applyAction, getStalemateWinner } from './engine';
+import { chooseAiAction, createStrategy } from './ai';
+import { randomSeed } from './random';
+
+// Tournaments for a group sharing one device. Every pairing is a heads-up match to the
+// tournament's target, played at the table like any other match; pairings between two
+// AIs can be played out here instead. Tournaments are kept in localStorage.
+
+export const MIN_ENTRANTS = 3;
+export const MAX_ENTRANTS = 16;
+
+// Labels live in the message catalogs under `tournament.format.<key>`
+export const TOURNAMENT_FORMATS: { key: TournamentFormat }[] = [
+  { key: 'round_robin' },
+  { key: 'single_elimination' },
+];
+
+const STORAGE_KEY = 'crazy-eights:tournaments';
+
+// A game that somehow runs this long is called as a stalemate, like scripts/simulate.ts gives up
+const MAX_SIMULATED_MOVES = 5000;
+
+const createPairing = (round: number, a: number, b: number | null): TournamentPairing => ({
+  round,
+  entrants: [a, b],
+  match: null,
+  winner: b === null ? a : null,
+});
+
+// Circle method: one entrant stays put while the rest rotate, so everyone meets once.
+// With an odd count the entrant facing the empty slot sits the round out.
+const getRoundRobinPairings = (count: number): TournamentPairing[] => {
+  const slots: (number | null)[] = [...Array(count).keys()];
+  if (count % 2) slots.push(null);
+  const pairings: TournamentPairing[] = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (a !== null && b !== null) pairings.push(createPairing(round, a, b));
+    }
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return pairings;
+};
+
+// Entrants are seeded in the order they registered. The bracket keeps the top seeds apart
+// until the late rounds, and byes fill it to a power of two, going to the top seeds.
+const getFirstRoundPairings = (count: number): TournamentPairing[] => {
+  let order = [0];
+  while (order.length < count) {
+    const size = order.length * 2;
+    order = order.flatMap(seed => [seed, size - 1 - seed]);
+  }
+  const pairings: TournamentPairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    pairings.push(createPairing(0, order[i], order[i + 1] < count ? order[i + 1] : null));
+  }
+  return pairings;
+};
+
+// Once every match in the latest knockout round is decided, its winners meet in pairs
+const advance = (tournament: Tournament): Tournament => {
+  if (tournament.format !== 'single_elimination') return tournament;
+  const round = Math.max(...tournament.pairings.map(p => p.round));
+  const current = tournament.pairings.filter(p => p.round === round);
+  if (current.length < 2 || current.some(p => p.winner === null)) return tournament;
+  const next: TournamentPairing[] = [];
+  for (let i = 0; i < current.length; i += 2) next.push(createPairing(round + 1, current[i].winner!, current[i + 1].winner!));
+  return { ...tournament, pairings: [...tournament.pairings, ...next] };
+};
+
+export const createTournament = (
+  name: string,
+  format: TournamentFormat,
+  entrants: PlayerConfig[],
+  rules: RuleSet,
+  target: number,
+): Tournament => {
+  if (entrants.length < MIN_ENTRANTS || entrants.length > MAX_ENTRANTS) {
+    throw new RangeError(`Tournaments need ${MIN_ENTRANTS}-${MAX_ENTRANTS} players, got ${entrants.length}`);
+  }
+  return advance({
+    id: randomSeed(),
+    name,
+    format,
+    entrants,
+    rules,
+    target,
+    pairings: format === 'round_robin' ? getRoundRobinPairings(entrants.length) : getFirstRoundPairings(entrants.length),
+    active: null,
+    createdAt: new Date().toISOString(),
+  });
+};
+
+// Seat order at the table follows the pairing
+export const getPairingPlayers = (tournament: Tournament, index: number): PlayerConfig[] =>
+  tournament.pairings[index].entrants.map(e => tournament.entrants[e!]);
+
+export const getPairingMatch = (tournament: Tournament, index: number): MatchState =>
+  tournament.pairings[index].match ?? createMatch(tournament.target, 2);
+
+export const isAiPairing = (tournament: Tournament, index: number): boolean =>
+  tournament.pairings[index].entrants.every(e => e !== null && tournament.entrants[e].kind === 'ai');
+
+// The active tournament and pairing, if `state` is one of its games (the autosave after a reload, say)
+export const findActivePairing = (tournaments: Tournament[], state: GameState): { tournament: Tournament; index: number } | null => {
+  const tournament = tournaments.find(t => t.active !== null);
+  if (!tournament) return null;
+  const players = getPairingPlayers(tournament, tournament.active!);
+  const seated = state.seats.map(({ hand, ...player }) => player);
+  return JSON.stringify(players) === JSON.stringify(seated) ? { tournament, index: tournament.active! } : null;
+};
+
+// Safe to call more than once for the same finished game, like `recordRound`
+export const recordTournamentGame = (tournament: Tournament, index: number, state: GameState): Tournament => {
+  const pairing = tournament.pairings[index];
+  if (state.status !== 'game_over' || pairing.winner !== null) return tournament;
+  const match = recordRound(getPairingMatch(tournament, index), state);
+  if (match.rounds.length === (pairing.match?.rounds.length ?? 0)) return tournament;
+  const seat = getMatchWinner(match);
+  const winner = seat === null ? null : pairing.entrants[seat];
+  return advance({
+    ...tournament,
+    pairings: tournament.pairings.map((p, i) => (i === index ? { ...p, match, winner } : p)),
+  });
+};
+
+// Plays an AI-only pairing through to its result, on the spot. The Expert's search would
+// freeze the page for the whole match, so Expert entrants play as Hard here.
+export const simulatePairing = (tournament: Tournament, index: number): Tournament => {
+  const players = getPairingPlayers(tournament, index);
+  const strategies = players.map(p => createStrategy(p.difficulty === 'expert' ? 'hard' : p.difficulty));
+  let next = tournament;
+  while (next.pairings[index].winner === null) {
+    let state = initGame(undefined, tournament.rules, players, getPairingMatch(next, index).dealer);
+    for (let moves = 0; state.status !== 'game_over'; moves++) {
+      if (moves === MAX_SIMULATED_MOVES) {
+        state = { ...state, status: 'game_over', winner: getStalemateWinner(state), endReason: 'stalemate' };
+        break;
+      }
+      const result = applyAction(state, chooseAiAction(state, strategies[state.currentSeat]));
+      if (result.ok === false) throw new Error(`Simulated move rejected: ${result.reason}`);
+      state = result.state;
+    }
+    next = recordTournamentGame(next, index, state);
+  }
+  return next;
+};
+
+// Byes aren't matches and count for nothing. Ties on wins are broken by total points,
+// then by wins over the other tied entrants.
+export const getStandings = (tournament: Tournament): TournamentStanding[] => {
+  const rows = tournament.entrants.map((_, entrant) => ({ entrant, played: 0, won: 0, lost: 0, points: 0 }));
+  tournament.pairings.forEach(({ entrants: [a, b], match, winner }) => {
+    if (b === null || winner === null) return;
+    rows[a].played++;
+    rows[b].played++;
+    rows[winner].won++;
+    rows[winner === a ? b : a].lost++;
+    rows[a].points += match!.totals[0];
+    rows[b].points += match!.totals[1];
+  });
+  const tied = (x: TournamentStanding, y: TournamentStanding) => x !== y && x.won === y.won && x.points === y.points;
+  const headToHead = (row: TournamentStanding) => tournament.pairings
+    .filter(p => p.winner === row.entrant && rows.some(o => tied(o, row) && p.entrants.includes(o.entrant)))
+    .length;
+  return [...rows].sort((x, y) => y.won - x.won || y.points - x.points || headToHead(y) - headToHead(x) || x.entrant - y.entrant);
+};
+
+// Null until every match is decided
+export const getChampion = (tournament: Tournament): number | null => {
+  if (tournament.pairings.some(p => p.winner === null)) return null;
+  return tournament.format === 'round_robin'
+    ? getStandings(tournament)[0].entrant
+    : tournament.pairings[tournament.pairings.length - 1].winner;
+};
+
+// --- Storage ---
+
+export const saveTournaments = (tournaments: Tournament[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(tournaments));
+};
+
+// Unreadable storage starts the list afresh rather than breaking the page
+export const loadTournaments = (): Tournament[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,44 @@
+import { Card, PlayerView, Rank, Suit } from './types';
+import { SUITS, RANKS, createDeck, isValidMove } from './constants';
+import { getLikelyVoids } from './hints';
+
+// The card counter: what a player who watched every card go down would know. It reads
+// only the player's own view (their hand, the discard pile and the redacted log), never
+// another hand or the order of the deck.
+
+export interface CardCount {
+  unseen: number; // Cards not in the player's hand or on the discard pile
+  grid: Record<Suit, Record<Rank, number>>; // Unseen cards by suit and rank
+  suits: Record<Suit, number>;
+  jokers: number;
+  voids: Set<Suit>[]; // Suits each opponent has likely run out of, indexed by seat
+  drawOdds: number | null; // Chance the next card drawn could be played; null if nothing can be drawn
+  drawFromDiscards: boolean; // The deck is empty, so the next draw comes from the reshuffled discard pile
+}
+
+const emptyGrid = (): Record<Suit, Record<Rank, number>> =>
+  Object.fromEntries(SUITS.map(s => [s, Object.fromEntries(RANKS.map(r => [r, 0]))])) as Record<Suit, Record<Rank, number>>;
+
+const getPlayableShare = (view: PlayerView, cards: Card[]): number | null =>
+  cards.length === 0 ? null : cards.filter(c => isValidMove(c, view.topCard, view.currentSuit)).length / cards.length;
+
+export const countCards = (view: PlayerView): CardCount => {
+  const seen = new Set([...view.hand, ...view.discardPile].map(c => c.id));
+  const unseen = createDeck(view.rules.decks, view.rules.jokers).filter(c => !seen.has(c.id));
+
+  const grid = emptyGrid();
+  let jokers = 0;
+  unseen.forEach((c) => {
+    if (c.suit) grid[c.suit][c.rank]++;
+    else jokers++;
+  });
+  const suits = Object.fromEntries(SUITS.map(s => [s, RANKS.reduce((sum, r) => sum + grid[s][r], 0)])) as Record<Suit, number>;
+
+  // With cards in the deck, every unseen card is treated as equally likely to be on top.
+  // Once it runs out, the discards under the top card are reshuffled, and those are known.
+  const drawFromDiscards = view.deckCount === 0 && view.drawableCount > 0;
+  const drawOdds = view.drawableCount === 0 ? null
+    : getPlayableShare(view, drawFromDiscards ? view.discardPile.slice(0, -1) : unseen);
+
+  return { unseen: unseen.length, grid, suits, jokers, voids: getLikelyVoids(view), drawOdds, drawFromDiscards };
+};
@@ -1,23 +1,279 @@
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
-export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
+export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'Joker';
 
 export interface Card {
-  id: string;
-  suit: Suit;
+  id: string; // Unique across every deck in the shoe
+  suit: Suit | null; // Null for jokers
   rank: Rank;
 }
 
+export type Direction = 1 | -1;
+
+export interface RuleSet {
+  drawTwo: boolean; // A 2 makes the next player draw two
+  stackPenalties: boolean; // A pending draw can be passed on with another draw card
+  queenOfSpadesDrawFive: boolean;
+  jackSkips: boolean;
+  aceReverses: boolean;
+  drawUntilPlayable: boolean; // Instead of draw-one-and-pass
+  noEightFinish: boolean; // An 8 cannot be the last card played
+  multiCardPlay: boolean; // Several cards of one rank may be laid down in a single turn
+  jokers: boolean; // Two per deck: wild, and the next player draws four
+  decks: number; // Standard decks shuffled together, 1-3
+}
+
+// The on/off house rules, as opposed to settings like the deck count
+export type RuleFlag = { [K in keyof RuleSet]: RuleSet[K] extends boolean ? K : never }[keyof RuleSet];
+
 export type GameStatus = 'dealing' | 'playing' | 'suit_selection' | 'game_over';
-export type Turn = 'player' | 'ai';
+export type EndReason = 'went_out' | 'stalemate';
+
+export type SeatKind = 'human' | 'ai';
+
+export type AiDifficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+export interface PlayerConfig {
+  name: string;
+  kind: SeatKind;
+  difficulty?: AiDifficulty; // AI seats only; defaults to normal
+}
+
+export interface Seat extends PlayerConfig {
+  hand: Card[];
+}
 
 export interface GameState {
+  seed: string; // Reproduces the deal via initGame(seed)
   deck: Card[];
-  playerHand: Card[];
-  aiHand: Card[];
+  seats: Seat[]; // In turn order when direction is 1
   discardPile: Card[];
-  currentTurn: Turn;
+  currentSeat: number;
+  dealer: number; // Play starts to the dealer's left
   status: GameStatus;
-  winner: Turn | null;
+  winner: number | null; // Null on a tied stalemate
+  endReason: EndReason | null;
   pendingSuitChange: boolean;
   currentSuit: Suit | null; // The suit to match (can be changed by 8)
+  rules: RuleSet;
+  pendingDraw: number; // Penalty cards the current player must draw unless they stack
+  direction: Direction;
+  reshuffles: number; // Times the discard pile has gone back into the deck
+  log: MoveLogEntry[]; // Everything that has happened since the deal, oldest first
+}
+
+// Draws keep the cards drawn; views redact them for every seat but the drawer
+export type MoveLogEntry =
+  | { type: 'deal'; dealer: number; handSize: number; firstCard: Card }
+  | { type: 'play'; seat: number; card: Card; extraCards?: Card[] }
+  | { type: 'draw'; seat: number; count: number; cards: Card[] | null }
+  | { type: 'choose_suit'; seat: number; suit: Suit }
+  | { type: 'pass'; seat: number }
+  | { type: 'reshuffle'; count: number };
+
+export interface PlayCard {
+  type: 'play_card';
+  seat: number;
+  cardId: string; // Played first, so it must fit the pile
+  extraCardIds?: string[]; // Same rank, laid on top in this order; the last one sets the suit
+}
+
+export interface DrawCard {
+  type: 'draw_card';
+  seat: number;
+}
+
+export interface ChooseSuit {
+  type: 'choose_suit';
+  seat: number;
+  suit: Suit;
+}
+
+export interface Pass {
+  type: 'pass';
+  seat: number;
+}
+
+export type GameAction = PlayCard | DrawCard | ChooseSuit | Pass;
+
+export type RejectionReason =
+  | 'game_over'
+  | 'not_your_turn'
+  | 'wrong_phase'
+  | 'card_not_in_hand'
+  | 'illegal_card'
+  | 'penalty_pending'
+  | 'eight_cannot_finish'
+  | 'deck_empty'
+  | 'must_draw'
+  | 'has_playable_card'
+  | 'multi_card_disabled'
+  | 'rank_mismatch';
+
+export type ActionResult =
+  | { ok: true; state: GameState }
+  | { ok: false; reason: RejectionReason };
+
+// Everything one seat may legitimately know: no deck order, no other hands
+export interface PlayerView {
+  seat: number;
+  currentSeat: number;
+  hand: Card[];
+  topCard: Card;
+  discardPile: Card[];
+  currentSuit: Suit | null;
+  handCounts: number[]; // Indexed by seat
+  dealer: number;
+  deckCount: number;
+  drawableCount: number; // Deck plus what a reshuffle would recover
+  rules: RuleSet;
+  pendingDraw: number;
+  direction: Direction;
+  status: GameStatus;
+  winner: number | null;
+  endReason: EndReason | null;
+  reshuffles: number;
+  log: MoveLogEntry[];
+  legalActions: GameAction[];
+}
+
+export interface AiStrategy {
+  chooseAction: (view: PlayerView) => GameAction;
+  chooseSuit: (view: PlayerView) => Suit;
+}
+
+export interface RoundResult {
+  seed: string;
+  winner: number | null;
+  endReason: EndReason;
+  handPoints: number[]; // Points left in each seat's hand
+  scores: number[]; // Points awarded this round, indexed by seat
+}
+
+export interface MatchState {
+  target: number;
+  rounds: RoundResult[];
+  totals: number[];
+  dealer: number;
+}
+
+export type TournamentFormat = 'round_robin' | 'single_elimination';
+
+// Two entrants (indexes into Tournament.entrants) playing a match to the tournament's target
+export interface TournamentPairing {
+  round: number; // From 0
+  entrants: [number, number | null]; // Null is a bye in an elimination bracket
+  match: MatchState | null; // Null until a game has been played
+  winner: number | null; // Entrant index once the match is decided
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  entrants: PlayerConfig[];
+  rules: RuleSet;
+  target: number;
+  pairings: TournamentPairing[];
+  active: number | null; // The pairing being played at the table
+  createdAt: string; // ISO timestamp
+}
+
+export interface TournamentStanding {
+  entrant: number;
+  played: number;
+  won: number;
+  lost: number;
+  points: number; // Match points scored across every pairing
+}
+
+// What the stats server stores about each finished game
+export interface FinishedGame {
+  seed: string;
+  rules: RuleSet;
+  endReason: EndReason;
+  winner: number | null;
+  players: {
+    name: string;
+    kind: SeatKind;
+    difficulty?: AiDifficulty;
+    cardsLeft: number;
+    pointsLeft: number;
+    score: number;
+  }[];
+  suitChoices: { seat: number; suit: Suit }[]; // Every suit named after an 8
+  moveCount: number;
+  durationMs: number;
+}
+
+export interface PlayerStats {
+  name: string;
+  kind: SeatKind;
+  games: number;
+  wins: number;
+  winRate: number;
+  currentStreak: number; // Consecutive wins up to the latest game
+  longestStreak: number;
+  averageScore: number;
+  favoriteSuit: Suit | null;
+}
+
+// One player's Daily Challenge, as the server worked it out by replaying their game
+export interface DailyResult {
+  date: string; // YYYY-MM-DD, UTC
+  name: string;
+  won: boolean;
+  moves: number; // The player's own turns, suit choices excluded
+  opponentCardsLeft: number;
+  durationMs: number;
+}
+
+export interface DailyEntry extends DailyResult {
+  rank: number;
+  finishedAt: string; // ISO timestamp
+}
+
+// A past challenge, with the asking player's entry if they played it
+export interface DailySummary {
+  date: string;
+  players: number;
+  winners: number;
+  entry: DailyEntry | null;
+}
+
+// Portable game file. Holds no hands or deck: the seed re-deals the game and the
+// log replays it, so a record can't claim a position the rules couldn't reach.
+export interface GameRecord {
+  format: 'crazy-eights-game';
+  version: number;
+  savedAt: string; // ISO timestamp
+  seed: string;
+  rules: RuleSet;
+  players: PlayerConfig[];
+  dealer: number;
+  log: MoveLogEntry[];
+}
+
+// What the coach is told about a turn: only what the player can see themselves
+export interface CoachSnapshot {
+  seat: number;
+  hand: Card[];
+  topCard: Card;
+  currentSuit: Suit | null;
+  handCounts: number[]; // Every seat's card count, in seat order
+  pendingDraw: number;
+  direction: Direction;
+  status: GameStatus;
+  rules: RuleSet;
+  legalActions: GameAction[];
+}
+
+export interface CoachAdvice {
+  action: GameAction | null; // Null when the model's pick wasn't a legal move
+  move: string; // Human-readable, e.g. "Play 7♥"
+  reasoning: string;
+}
+
+export interface GameReview {
+  summary: string;
+  mistakes: string[];
 }
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { GameState } from './types';
+import { FLAGGED_MOVE_MS, TimeControl } from './clock';
+
+const TICK_MS = 100;
+
+interface Turn {
+  state: GameState; // The position this turn was started for
+  clockSeconds: number | null;
+  running: boolean;
+  startedAt: number;
+}
+
+// Counts down the turn timer and the speed clocks while `running` (a human is to move
+// and can see their hand). Every state change starts a new turn; `onExpire` is called
+// once the turn timer or the mover's clock reaches zero.
+export const useTurnClock = (state: GameState, timeControl: TimeControl, running: boolean, onExpire: () => void) => {
+  const [clocks, setClocks] = useState<number[] | null>(null);
+  const [turn, setTurn] = useState<Turn | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const at = Date.now();
+    const { clockSeconds } = timeControl;
+    if (!clockSeconds) {
+      setClocks(null);
+    } else if (!turn || turn.state.seed !== state.seed || turn.clockSeconds !== clockSeconds) {
+      // A new deal, or a new clock setting, starts everyone afresh
+      setClocks(state.seats.map(() => clockSeconds * 1000));
+    } else if (turn.running) {
+      setClocks(prev => prev && prev.map((ms, i) => (i === turn.state.currentSeat ? Math.max(0, ms - (at - turn.startedAt)) : ms)));
+    }
+    setTurn({ state, clockSeconds, running, startedAt: at });
+    setNow(at);
+  }, [state, running, timeControl.clockSeconds]);
+
+  // Until the effect above has caught up with a new state, the old turn's numbers don't apply
+  const active = running && turn?.state === state && turn.running && (timeControl.turnSeconds !== null || clocks !== null);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  const spent = active ? now - turn!.startedAt : 0;
+  const turnLeftMs = active && timeControl.turnSeconds !== null ? timeControl.turnSeconds * 1000 - spent : null;
+  const clockLeftMs = clocks?.map((ms, i) => (i === state.currentSeat ? ms - spent : ms)) ?? null;
+  // A player already out of time gets a moment to see each move made for them
+  const flagged = clocks !== null && turn !== null && clocks[state.currentSeat] === 0;
+  const deadline = Math.min(
+    turnLeftMs ?? Infinity,
+    flagged ? FLAGGED_MOVE_MS - spent : (clockLeftMs?.[state.currentSeat] ?? Infinity),
+  );
+
+  useEffect(() => {
+    if (active && deadline <= 0) onExpire();
+  }, [now]);
+
+  return { turnLeftMs, clockLeftMs };
+};
@@ -0,0 +1,29 @@
+import { GameState, MoveLogEntry, PlayerView } from './types';
+import { getTopCard, getHand, getDrawableCount, getLegalActions } from './engine';
+
+// Other seats' draws keep their size but not the cards; finished games hide nothing
+export const redactLog = (log: MoveLogEntry[], seat: number): MoveLogEntry[] =>
+  log.map(entry => (entry.type === 'draw' && entry.seat !== seat ? { ...entry, cards: null } : entry));
+
+// Redacts a game down to what `seat` can see at the table
+export const createPlayerView = (state: GameState, seat: number): PlayerView => ({
+  seat,
+  currentSeat: state.currentSeat,
+  hand: getHand(state, seat),
+  topCard: getTopCard(state),
+  discardPile: state.discardPile,
+  currentSuit: state.currentSuit,
+  handCounts: state.seats.map(s => s.hand.length),
+  dealer: state.dealer,
+  deckCount: state.deck.length,
+  drawableCount: getDrawableCount(state),
+  rules: state.rules,
+  pendingDraw: state.pendingDraw,
+  direction: state.direction,
+  status: state.status,
+  winner: state.winner,
+  endReason: state.endReason,
+  reshuffles: state.reshuffles,
+  log: state.status === 'game_over' ? state.log : redactLog(state.log, seat),
+  legalActions: state.currentSeat === seat ? getLegalActions(state, seat) : [],
+});